@@ -0,0 +1,83 @@
+import * as vscode from "vscode";
+import { BitburnerServer, GameConnection, GameFileEvent, RequestOptions, ServerErrorEvent } from "./bitburner-server";
+import { FileData, Server } from "./bitburner-server/interfaces";
+import { RelayStatus } from "./bitburner-server/relay-manager";
+
+export type { GameConnection, GameFileEvent, RequestOptions, ServerErrorEvent } from "./bitburner-server";
+export type { FileData, Server } from "./bitburner-server/interfaces";
+export type { RelayStatus } from "./bitburner-server/relay-manager";
+export { RequestPriority } from "./bitburner-server/rpc-scheduler";
+export { BitburnerError, BitburnerErrorCode } from "./bitburner-server/errors";
+
+/**
+ * The API other extensions get from activating the companion:
+ *
+ * ```ts
+ * const api = await vscode.extensions.getExtension<BitburnerCompanionApi>("<publisher>.bitburner-companion")?.activate();
+ * api?.onGameConnected(connection => api.pushFile("hello.js", "...", "home"));
+ * ```
+ *
+ * Requests behave like the companion's own: they go to the active game instance, resolve to `null`
+ * while no game is connected, and reject with a `BitburnerError` if the game reports an error.
+ */
+export interface BitburnerCompanionApi {
+    /**
+     * Incremented on breaking changes to this interface.
+     */
+    readonly version: 1;
+
+    readonly isConnected: boolean;
+    readonly connections: GameConnection[];
+    readonly activeConnection: GameConnection | undefined;
+
+    pushFile(filename: string, content: string, server?: string, options?: RequestOptions): Promise<boolean>;
+    deleteFile(filename: string, server?: string, options?: RequestOptions): Promise<boolean>;
+    getFileContent(filename: string, server?: string, options?: RequestOptions): Promise<string | null>;
+    getFileNames(server?: string, options?: RequestOptions): Promise<string[] | null>;
+    getFiles(server?: string, options?: RequestOptions): Promise<FileData[] | null>;
+    calculateRam(filename: string, server?: string, options?: RequestOptions): Promise<number | null>;
+    getAllServers(options?: RequestOptions): Promise<Server[] | null>;
+
+    readonly onGameConnected: vscode.Event<GameConnection>;
+    readonly onGameDisconnected: vscode.Event<GameConnection>;
+    readonly onDidChangeActiveConnection: vscode.Event<GameConnection | undefined>;
+    readonly onDidPushFile: vscode.Event<GameFileEvent>;
+    readonly onDidDeleteFile: vscode.Event<GameFileEvent>;
+    readonly onDidChangeRelay: vscode.Event<RelayStatus>;
+    readonly onError: vscode.Event<ServerErrorEvent>;
+}
+
+/**
+ * Wrap the server in the public API, so other extensions can't reach anything beyond it.
+ */
+export function createApi(server: BitburnerServer): BitburnerCompanionApi {
+    return Object.freeze({
+        version: 1,
+
+        get isConnected() {
+            return server.isConnected;
+        },
+        get connections() {
+            return server.connections;
+        },
+        get activeConnection() {
+            return server.activeConnection;
+        },
+
+        pushFile: (filename, content, hostname, options) => server.pushFile(filename, content, hostname, options),
+        deleteFile: (filename, hostname, options) => server.deleteFile(filename, hostname, options),
+        getFileContent: (filename, hostname, options) => server.getFileContent(filename, hostname, options),
+        getFileNames: (hostname, options) => server.getFileNames(hostname, options),
+        getFiles: (hostname, options) => server.getFiles(hostname, options),
+        calculateRam: (filename, hostname, options) => server.calculateRam(filename, hostname, options),
+        getAllServers: (options) => server.getAllServers(options),
+
+        onGameConnected: server.onGameConnected,
+        onGameDisconnected: server.onGameDisconnected,
+        onDidChangeActiveConnection: server.onDidChangeActiveConnection,
+        onDidPushFile: server.onDidPushFile,
+        onDidDeleteFile: server.onDidDeleteFile,
+        onDidChangeRelay: server.onDidChangeRelay,
+        onError: server.onError,
+    } satisfies BitburnerCompanionApi);
+}
@@ -0,0 +1,184 @@
+import * as vscode from "vscode";
+import { IChildLogger } from "@vscode-logging/logger";
+import { homedir } from "os";
+import { BitburnerServer } from "../bitburner-server";
+import { getLocalWorkspaceFolders, normalizePath } from "../fs/util";
+
+const BACKUP_PATTERN = /^bitburnerSave_(\d+)_.*\.json(\.gz)?$/;
+
+export interface SaveBackup {
+    uri: vscode.Uri;
+    name: string;
+    createdAt: Date;
+    size: number;
+}
+
+/**
+ * Takes snapshots of the game's save file and keeps them according to the configured retention rules.
+ */
+export class SaveBackupProvider implements Disposable, vscode.Disposable {
+    public readonly logger: IChildLogger;
+    private interval?: NodeJS.Timeout;
+    /**
+     * The save data of the last snapshot, so unchanged saves aren't stored twice.
+     */
+    private lastSave?: string;
+
+    constructor(
+        public readonly server: BitburnerServer,
+        private readonly globalStorageUri: vscode.Uri,
+    ) {
+        this.logger = server.logger.getChildLogger({ label: "backups" });
+        this.updateConfig();
+    }
+
+    private get config() {
+        return this.server.config;
+    }
+
+    [Symbol.dispose]() {
+        clearInterval(this.interval);
+    }
+
+    dispose() {
+        this[Symbol.dispose]();
+    }
+
+    /**
+     * Reschedule periodic backups after the config changed.
+     */
+    public updateConfig() {
+        clearInterval(this.interval);
+        this.interval = undefined;
+
+        const minutes = this.config.backupInterval;
+        if (minutes > 0) {
+            this.interval = setInterval(() => {
+                this.backup().catch(e => this.logger.error(`[backups] periodic backup failed: ${e}`));
+            }, minutes * 60 * 1000);
+        }
+    }
+
+    /**
+     * Called when a game connects. Takes a snapshot if `backupOnConnect` is enabled.
+     */
+    public async onGameConnected() {
+        if (!this.config.backupOnConnect) {
+            return;
+        }
+
+        await this.backup().catch(e => this.logger.error(`[backups] backup on connect failed: ${e}`));
+    }
+
+    /**
+     * The folder backups are stored in: `backupFolder` in the first workspace folder on disk if set, global storage otherwise.
+     */
+    public getBackupFolder(): vscode.Uri {
+        const folder = normalizePath(this.config.backupFolder);
+        const workspaceFolder = getLocalWorkspaceFolders()[0];
+
+        if (folder && workspaceFolder) {
+            return vscode.Uri.joinPath(workspaceFolder.uri, folder);
+        }
+
+        return vscode.Uri.joinPath(this.globalStorageUri, "backups");
+    }
+
+    /**
+     * Take a snapshot of the game's save file, then apply the retention rules.
+     *
+     * @returns The new backup, the existing one if the save didn't change, or null if the game is not connected.
+     */
+    public async backup(): Promise<vscode.Uri | null> {
+        const saveFile = await this.server.getSaveFile();
+        if (!saveFile) {
+            return null;
+        }
+
+        if (saveFile.save === this.lastSave) {
+            this.logger.debug(`[backups] save unchanged, skipping backup`);
+            return (await this.listBackups())[0]?.uri ?? null;
+        }
+
+        const folder = this.getBackupFolder();
+        await vscode.workspace.fs.createDirectory(folder);
+
+        // mirrors the game's own export naming, so backups can be imported ingame as-is.
+        const identifier = saveFile.identifier.replace(/[^a-zA-Z0-9-]/g, "") || "save";
+        const name = `bitburnerSave_${Date.now()}_${identifier}.json${saveFile.binary ? ".gz" : ""}`;
+        const content = saveFile.binary ? Buffer.from(saveFile.save, "base64") : new TextEncoder().encode(saveFile.save);
+
+        const uri = vscode.Uri.joinPath(folder, name);
+        await vscode.workspace.fs.writeFile(uri, content);
+        this.lastSave = saveFile.save;
+        this.logger.info(`[backups] saved ${uri.toString()}`);
+
+        await this.applyRetention();
+
+        return uri;
+    }
+
+    /**
+     * All backups in the backup folder, newest first.
+     */
+    public async listBackups(): Promise<SaveBackup[]> {
+        const folder = this.getBackupFolder();
+        const entries = await vscode.workspace.fs.readDirectory(folder).then(entries => entries, () => []);
+
+        const backups: SaveBackup[] = [];
+        for (const [name, type] of entries) {
+            const match = name.match(BACKUP_PATTERN);
+            if (type !== vscode.FileType.File || !match) {
+                continue;
+            }
+
+            const uri = vscode.Uri.joinPath(folder, name);
+            const stat = await vscode.workspace.fs.stat(uri);
+            backups.push({ uri, name, createdAt: new Date(parseInt(match[1])), size: stat.size });
+        }
+
+        return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    /**
+     * Delete backups beyond `backupMaxCount` and older than `backupMaxAgeDays`. The newest backup is always kept.
+     */
+    public async applyRetention() {
+        const { backupMaxCount, backupMaxAgeDays } = this.config;
+        const [newest, ...rest] = await this.listBackups();
+        if (!newest) {
+            return;
+        }
+
+        const oldestAllowed = Date.now() - backupMaxAgeDays * 24 * 60 * 60 * 1000;
+
+        for (const [index, backup] of rest.entries()) {
+            const tooMany = backupMaxCount > 0 && index + 1 >= backupMaxCount;
+            const tooOld = backupMaxAgeDays > 0 && backup.createdAt.getTime() < oldestAllowed;
+
+            if (tooMany || tooOld) {
+                await vscode.workspace.fs.delete(backup.uri);
+                this.logger.debug(`[backups] deleted ${backup.name}`);
+            }
+        }
+    }
+
+    /**
+     * Copy a backup to a location picked by the user.
+     *
+     * @returns where the backup was exported to, or undefined if the user cancelled.
+     */
+    public async exportBackup(backup: SaveBackup): Promise<vscode.Uri | undefined> {
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(getLocalWorkspaceFolders()[0]?.uri ?? vscode.Uri.file(homedir()), backup.name),
+            saveLabel: "Export Backup",
+        });
+
+        if (!target) {
+            return;
+        }
+
+        await vscode.workspace.fs.copy(backup.uri, target, { overwrite: true });
+        return target;
+    }
+}
@@ -1,15 +1,18 @@
 import { IVSCodeExtLogger } from "@vscode-logging/logger";
-import { BitburnerServer, DEFAULT_CONFIG } from ".";
+import { BitburnerServer, DEFAULT_CONFIG, ServerState } from ".";
 import assert from "assert";
 import { after, before, suite, test } from "mocha";
+import { FakeGame } from "./fake-game";
+import { BitburnerError, BitburnerErrorCode } from "./errors";
+import { WebSocket } from "ws";
 
 function mockExtensionLogger(): IVSCodeExtLogger {
     return {
         trace: () => {},
         debug: () => {},
-        info: console.log,
+        info: () => {},
         warn: console.warn,
-        error: console.error,
+        error: () => {},
         fatal: console.error,
         changeLevel: () => { },
         changeSourceLocationTracking: () => { },
@@ -18,15 +21,22 @@ function mockExtensionLogger(): IVSCodeExtLogger {
 }
 
 suite("Bitburner Server", async () => {
+    const config = { ...DEFAULT_CONFIG, port: DEFAULT_CONFIG.port + 1 };
     let server: BitburnerServer;
+    let game: FakeGame;
     
     before(async function() {
-        this.timeout(60000);
-        console.log(`To proceed, connect to the server at localhost:${DEFAULT_CONFIG.port} ingame.`);
-        server = await new BitburnerServer(DEFAULT_CONFIG, mockExtensionLogger()).awaitConnection();
+        server = new BitburnerServer(config, mockExtensionLogger());
+        server.start();
+        game = new FakeGame({ servers: [{ hostname: "n00dles" }] });
+
+        const connected = server.awaitConnection();
+        await game.connect(config.port);
+        await connected;
     });
 
     test("can get script ram", async function() {
+        game.writeFile("test.js", "export async function main(ns) {}");
         const ram = await server.calculateRam("test.js");
 
         assert(typeof ram === "number");
@@ -53,5 +63,169 @@ suite("Bitburner Server", async () => {
         assert(home && home.hostname === "home" && home.purchasedByPlayer && home.hasAdminRights);
     });
 
-    after(() => server[Symbol.dispose]());
+    test("can push, read and delete files", async function() {
+        assert(await server.pushFile("/lib/util.js", "export const a = 1;", "n00dles"));
+        assert.strictEqual(game.readFile("lib/util.js", "n00dles"), "export const a = 1;");
+
+        assert.strictEqual(await server.getFileContent("lib/util.js", "n00dles"), "export const a = 1;");
+        assert.deepStrictEqual(await server.getFileNames("n00dles"), ["lib/util.js"]);
+
+        assert(await server.deleteFile("lib/util.js", "n00dles"));
+        assert.deepStrictEqual(await server.getFiles("n00dles"), []);
+    });
+
+    test("can get file metadata", async function() {
+        const start = Date.now();
+        assert(await server.pushFile("metadata.js", "export const a = 1;", "n00dles"));
+
+        const created = await server.getFileMetadata("metadata.js", "n00dles");
+        assert(created && created.filename === "metadata.js");
+        assert(typeof created.mtime === "number" && created.mtime >= start);
+        assert.strictEqual(created.btime, created.mtime);
+
+        // pushing again only changes the modification time.
+        assert(await server.pushFile("metadata.js", "export const a = 2;", "n00dles"));
+        const modified = await server.getFileMetadata("metadata.js", "n00dles");
+        assert(modified && modified.btime === created.btime && typeof modified.mtime === "number" && modified.mtime >= created.mtime);
+
+        await assert.rejects(server.getFileMetadata("missing.js", "n00dles"), (e: unknown) => e instanceof BitburnerError && e.code === BitburnerErrorCode.FileNotFound);
+        assert(await server.deleteFile("metadata.js", "n00dles"));
+    });
+
+    test("can get the save file", async function() {
+        game.save = { identifier: "player", binary: true, save: "H4sIAAAAAAAAA6uuBQBDv6ajAgAAAA==" };
+        assert.deepStrictEqual(await server.getSaveFile(), game.save);
+    });
+
+    test("maps the game's errors to error codes", async function() {
+        const code = (promise: Promise<unknown>) => promise.then(
+            () => assert.fail("expected an error"),
+            (e: unknown) => e instanceof BitburnerError ? e.code : e,
+        );
+
+        assert.strictEqual(await code(server.getFileContent("missing.js")), BitburnerErrorCode.FileNotFound);
+        assert.strictEqual(await code(server.getFileContent("test.js", "nowhere")), BitburnerErrorCode.InvalidHostname);
+        assert.strictEqual(await code(server.getFiles("nowhere")), BitburnerErrorCode.InvalidHostname);
+        assert.strictEqual(await code(server.pushFile("test.exe", "")), BitburnerErrorCode.InvalidFileExtension);
+        assert.strictEqual(await code(server.pushFile("my file.js", "")), BitburnerErrorCode.InvalidFile);
+
+        game.writeFile("broken.js", "export async function main(ns) {");
+        game.setRamCost("broken.js", null);
+        assert.strictEqual(await server.calculateRam("broken.js"), -1);
+    });
+
+    test("rejects pending requests when the game disconnects", async function() {
+        const other = new FakeGame();
+        const connected = new Promise<void>(resolve => {
+            const listener = server.onGameConnected(() => {
+                listener.dispose();
+                resolve();
+            });
+        });
+        await other.connect(config.port);
+        await connected;
+
+        other.pause();
+        const rejected = assert.rejects(server.getFileContent("test.js"), (e: unknown) => e instanceof BitburnerError && e.code === BitburnerErrorCode.GameDisconnected);
+        await other.disconnect();
+
+        await rejected;
+        assert.strictEqual(server.connections.length, 1);
+    });
+
+    test("notifies every listener of pushed and deleted files", async function() {
+        const pushed: string[] = [];
+        const deleted: string[] = [];
+        const listeners = [
+            server.onDidPushFile(e => pushed.push(`${e.server}:${e.filename}`)),
+            server.onDidPushFile(e => pushed.push(`${e.connection.label}`)),
+            server.onDidDeleteFile(e => deleted.push(`${e.server}:${e.filename}`)),
+        ];
+
+        await server.pushFile("events.js", "", "n00dles");
+        await server.deleteFile("events.js", "n00dles");
+        listeners.forEach(listener => listener.dispose());
+
+        assert.deepStrictEqual(pushed, ["n00dles:events.js", server.activeConnection!.label]);
+        assert.deepStrictEqual(deleted, ["n00dles:events.js"]);
+    });
+
+    test("records requests in the traffic log", async function() {
+        server.traffic.clear();
+        await server.getFileContent("missing.js", "home", { origin: "filesync" }).catch(() => {});
+
+        const [entry] = server.traffic.entries;
+        assert.strictEqual(entry.method, "getFile");
+        assert.strictEqual(entry.server, "home");
+        assert.strictEqual(entry.origin, "filesync");
+        assert.strictEqual(entry.status, "error");
+        assert.strictEqual(entry.errorCode, BitburnerErrorCode.FileNotFound);
+    });
+
+    test("cancels requests through their signal", async function() {
+        const controller = new AbortController();
+
+        game.pause();
+        const pending = server.getFileContent("test.js", "home", { signal: controller.signal });
+        controller.abort();
+
+        await assert.rejects(pending, (e: unknown) => e instanceof BitburnerError && e.code === BitburnerErrorCode.Cancelled);
+        game.resume();
+    });
+
+    test("only accepts tool connections that are allowed and don't come from a browser", async function() {
+        // resolves to the HTTP status of the upgrade response.
+        const connect = (headers: Record<string, string> = {}) => new Promise<number>((resolve, reject) => {
+            const ws = new WebSocket(`ws://localhost:${config.port}/tool?name=test`, { headers });
+            ws.on("error", reject);
+            ws.once("open", () => {
+                ws.close();
+                resolve(101);
+            });
+            ws.once("unexpected-response", (request, response) => {
+                request.destroy();
+                resolve(response.statusCode ?? 0);
+            });
+        });
+
+        assert.strictEqual(await connect(), 403);
+
+        server.updateConfig({ allowToolConnections: true });
+        try {
+            assert.strictEqual(await connect({ Origin: "https://example.com" }), 403);
+            assert.strictEqual(await connect(), 101);
+        } finally {
+            server.updateConfig({ allowToolConnections: false });
+        }
+    });
+
+    test("reports a port conflict and recovers from it", async function() {
+        const waitForState = (target: BitburnerServer, expected: ServerState) => new Promise<void>(resolve => {
+            const listener = target.onDidChangeState(state => {
+                if (state === expected) {
+                    listener.dispose();
+                    resolve();
+                }
+            });
+        });
+
+        const conflicting = new BitburnerServer({ ...config }, mockExtensionLogger());
+        const failed = waitForState(conflicting, "error");
+        conflicting.start();
+        await failed;
+        assert.strictEqual((conflicting.lastError as NodeJS.ErrnoException).code, "EADDRINUSE");
+
+        const listening = waitForState(conflicting, "listening");
+        conflicting.updateConfig({ port: config.port + 1 });
+        await listening;
+
+        await conflicting.stop();
+        assert.strictEqual(conflicting.state, "stopped");
+        conflicting.dispose();
+    });
+
+    after(async () => {
+        await game.disconnect();
+        server[Symbol.dispose]();
+    });
 });
\ No newline at end of file
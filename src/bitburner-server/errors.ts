@@ -20,6 +20,14 @@ export enum BitburnerErrorCode {
      */
     RamNotCalculated = "RamNotCalculated",
     ResponseTimeout = "ResponseTimeout",
+    /**
+     * Returned for requests still waiting for a response when the game disconnected.
+     */
+    GameDisconnected = "GameDisconnected",
+    /**
+     * Returned when a request is aborted through its `AbortSignal`.
+     */
+    Cancelled = "Cancelled",
 }
 
 export function parseErrorCode(error: string): BitburnerErrorCode {
@@ -38,6 +46,8 @@ export function parseErrorCode(error: string): BitburnerErrorCode {
             return BitburnerErrorCode.InvalidHostname;
         case "Ram cost could not be calculated":
             return BitburnerErrorCode.RamNotCalculated;
+        case "Unknown message":
+            return BitburnerErrorCode.UnknownMessage;
         default:
             return BitburnerErrorCode.Failed;
     }
@@ -53,6 +63,8 @@ const ERROR_MESSAGES: Record<BitburnerErrorCode, string> = {
     [BitburnerErrorCode.FileNotFound]: "File doesn't exist",
     [BitburnerErrorCode.RamNotCalculated]: "RAM cost could not be calculated",
     [BitburnerErrorCode.ResponseTimeout]: "Response timed out",
+    [BitburnerErrorCode.GameDisconnected]: "Game disconnected",
+    [BitburnerErrorCode.Cancelled]: "Request cancelled",
 };
 
 
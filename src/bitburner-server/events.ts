@@ -0,0 +1,50 @@
+/**
+ * A function to subscribe to an event. Structurally compatible with `vscode.Event`, without depending on `vscode`.
+ */
+export type Event<T> = (listener: (e: T) => any, thisArgs?: any, disposables?: { dispose(): any }[]) => { dispose(): any };
+
+/**
+ * Minimal multi-listener event emitter, modelled after `vscode.EventEmitter`.
+ */
+export class EventEmitter<T> {
+    private readonly listeners = new Set<(e: T) => any>();
+
+    /**
+     * @param onListenerError Called with errors thrown by listeners, so one failing listener doesn't keep the others from being called.
+     * Without it, the first error is rethrown once every listener was called.
+     */
+    constructor(private readonly onListenerError?: (error: unknown) => void) {}
+
+    public readonly event: Event<T> = (listener, thisArgs, disposables) => {
+        const bound = thisArgs ? listener.bind(thisArgs) : listener;
+        this.listeners.add(bound);
+
+        const disposable = { dispose: () => { this.listeners.delete(bound); } };
+        disposables?.push(disposable);
+
+        return disposable;
+    };
+
+    public fire(data: T) {
+        const errors: unknown[] = [];
+        for (const listener of [...this.listeners]) {
+            try {
+                listener(data);
+            } catch (e) {
+                if (this.onListenerError) {
+                    this.onListenerError(e);
+                } else {
+                    errors.push(e);
+                }
+            }
+        }
+
+        if (errors.length > 0) {
+            throw errors[0];
+        }
+    }
+
+    public dispose() {
+        this.listeners.clear();
+    }
+}
@@ -0,0 +1,338 @@
+import { RawData, WebSocket } from "ws";
+import { FileContent, FileMetadata, Message, SaveFile, Server } from "./interfaces";
+
+const SCRIPT_EXTENSIONS = [".js", ".jsx", ".ts", ".tsx"];
+const TEXT_EXTENSIONS = [".txt", ".json", ".css"];
+
+/**
+ * Static RAM cost of a script that doesn't call any Netscript functions.
+ */
+const BASE_RAM_COST = 1.6;
+
+const DEFAULT_DEFINITIONS = "/** All netscript definitions */\nexport interface NS {}\n";
+
+const DEFAULT_SAVE: SaveFile = { identifier: "fake-game", binary: false, save: "{}" };
+
+type FileTimes = Omit<FileMetadata, "filename">;
+
+export interface FakeServer extends Server {
+    /**
+     * File contents by path, without a leading slash.
+     */
+    files: Map<string, string>;
+    /**
+     * Access, creation and modification times by path, as timestamps.
+     */
+    times: Map<string, FileTimes>;
+}
+
+export interface FakeGameOptions {
+    /**
+     * Servers the game starts with, in addition to `home`.
+     */
+    servers?: Partial<Server>[];
+    definitions?: string;
+    save?: SaveFile;
+    /**
+     * Methods the game answers with "Unknown message", to imitate older game versions.
+     */
+    unsupportedMethods?: string[];
+}
+
+class FakeGameError extends Error {}
+
+function hasExtension(path: string, extensions: string[]): boolean {
+    return extensions.some(extension => path.endsWith(extension));
+}
+
+/**
+ * Mirrors the game's own path validation: leading slashes are dropped, and paths containing characters
+ * the game doesn't allow (or pointing at a directory) are rejected.
+ */
+function resolveFilePath(filename: string): string | null {
+    const path = filename.replace(/^\/+/, "");
+    if (!path || path.endsWith("/") || /[\s*?[\]!\\~|#"']/.test(path) || path.split("/").some(segment => segment === "" || segment === "." || segment === "..")) {
+        return null;
+    }
+
+    return path;
+}
+
+/**
+ * An in-process stand-in for the game's Remote API, so `BitburnerServer` can be tested without a running game.
+ *
+ * It connects to the server like the game does and answers requests from an in-memory filesystem,
+ * with the same error messages the game uses.
+ */
+export class FakeGame implements Disposable {
+    public readonly servers = new Map<string, FakeServer>();
+    public definitions: string;
+    /**
+     * What `getSaveFile` returns.
+     */
+    public save: SaveFile;
+
+    /**
+     * Every request received, in order.
+     */
+    public readonly requests: Message[] = [];
+
+    private readonly unsupportedMethods: Set<string>;
+    private readonly ramCosts = new Map<string, number | null>();
+    private ws?: WebSocket;
+    /**
+     * Responses held back while the game is paused, to imitate a frozen or slow game.
+     */
+    private held?: (() => void)[];
+
+    constructor(options: FakeGameOptions = {}) {
+        this.definitions = options.definitions ?? DEFAULT_DEFINITIONS;
+        this.save = options.save ?? DEFAULT_SAVE;
+        this.unsupportedMethods = new Set(options.unsupportedMethods);
+
+        this.addServer({ hostname: "home", hasAdminRights: true, purchasedByPlayer: true });
+        for (const server of options.servers ?? []) {
+            this.addServer(server);
+        }
+    }
+
+    public addServer({ hostname = `server-${this.servers.size}`, hasAdminRights = false, purchasedByPlayer = false }: Partial<Server>): FakeServer {
+        const server: FakeServer = { hostname, hasAdminRights, purchasedByPlayer, files: new Map(), times: new Map() };
+        this.servers.set(hostname, server);
+        return server;
+    }
+
+    /**
+     * Write a file directly, as if it was changed ingame.
+     */
+    public writeFile(filename: string, content: string, server = "home") {
+        this.setFile(this.getServer(server), filename.replace(/^\/+/, ""), content);
+    }
+
+    public readFile(filename: string, server = "home"): string | undefined {
+        return this.servers.get(server)?.files.get(filename.replace(/^\/+/, ""));
+    }
+
+    /**
+     * Override what `calculateRam` returns for a script. `null` makes the calculation fail, like a script with syntax errors would.
+     */
+    public setRamCost(filename: string, cost: number | null, server = "home") {
+        this.ramCosts.set(`${server}:${filename.replace(/^\/+/, "")}`, cost);
+    }
+
+    /**
+     * Connect to a `BitburnerServer`, like entering its port under "Remote API" ingame.
+     */
+    public connect(port: number, host = "localhost"): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const ws = new WebSocket(`ws://${host}:${port}`);
+            ws.once("open", () => {
+                this.ws = ws;
+                resolve();
+            });
+            ws.once("error", reject);
+            ws.on("message", data => this.handleMessage(ws, data));
+        });
+    }
+
+    /**
+     * Stop answering requests until `resume` is called.
+     */
+    public pause() {
+        this.held ??= [];
+    }
+
+    /**
+     * Answer all held requests, and every further request right away.
+     */
+    public resume() {
+        const held = this.held ?? [];
+        this.held = undefined;
+        held.forEach(respond => respond());
+    }
+
+    public get isConnected(): boolean {
+        return this.ws?.readyState === WebSocket.OPEN;
+    }
+
+    /**
+     * Disconnect from the server.
+     */
+    public disconnect(): Promise<void> {
+        const ws = this.ws;
+        this.ws = undefined;
+
+        if (!ws || ws.readyState === WebSocket.CLOSED) {
+            return Promise.resolve();
+        }
+
+        return new Promise(resolve => {
+            ws.once("close", () => resolve());
+            ws.close();
+        });
+    }
+
+    [Symbol.dispose]() {
+        this.ws?.terminate();
+        this.ws = undefined;
+    }
+
+    private handleMessage(ws: WebSocket, data: RawData) {
+        const message = JSON.parse(data.toString()) as Message;
+        this.requests.push(message);
+
+        let response: Message;
+        try {
+            response = { jsonrpc: "2.0", id: message.id, result: this.handle(message) };
+        } catch (e) {
+            if (!(e instanceof FakeGameError)) {
+                throw e;
+            }
+
+            response = { jsonrpc: "2.0", id: message.id, error: e.message };
+        }
+
+        const respond = () => ws.send(JSON.stringify(response));
+        if (this.held) {
+            this.held.push(respond);
+        } else {
+            respond();
+        }
+    }
+
+    private handle({ method, params }: Message): Message["result"] {
+        if (!method || this.unsupportedMethods.has(method)) {
+            throw new FakeGameError("Unknown message");
+        }
+
+        const { filename, content, server } = (params ?? {}) as { filename?: unknown, content?: unknown, server?: unknown };
+
+        switch (method) {
+            case "pushFile": {
+                if (typeof filename !== "string" || typeof content !== "string" || typeof server !== "string") {
+                    throw new FakeGameError("Misses parameters");
+                }
+
+                const path = this.resolvePath(filename);
+                const target = this.getServer(server);
+                if (!hasExtension(path, SCRIPT_EXTENSIONS) && !hasExtension(path, TEXT_EXTENSIONS)) {
+                    throw new FakeGameError("Invalid file extension");
+                }
+
+                this.setFile(target, path, content);
+                return "OK";
+            }
+            case "getFile": {
+                const { path, target } = this.resolveLocation(filename, server);
+                const file = target.files.get(path);
+                if (file === undefined) {
+                    throw new FakeGameError("File doesn't exist");
+                }
+
+                target.times.get(path)!.atime = Date.now();
+                return file;
+            }
+            case "getFileMetadata": {
+                const { path, target } = this.resolveLocation(filename, server);
+                const times = target.times.get(path);
+                if (!times) {
+                    throw new FakeGameError("File doesn't exist");
+                }
+
+                return { filename: path, ...times };
+            }
+            case "deleteFile": {
+                const { path, target } = this.resolveLocation(filename, server);
+                target.times.delete(path);
+                if (!target.files.delete(path)) {
+                    // the game's error depends on the kind of file that wasn't found.
+                    if (hasExtension(path, TEXT_EXTENSIONS)) {
+                        throw new FakeGameError(`Text file ${path} not found.`);
+                    } else if (hasExtension(path, SCRIPT_EXTENSIONS)) {
+                        throw new FakeGameError(`Script ${path} not found.`);
+                    }
+
+                    throw new FakeGameError(`${path} is not a valid file type.`);
+                }
+
+                return "OK";
+            }
+            case "getFileNames": {
+                return [...this.resolveServer(server).files.keys()];
+            }
+            case "getFiles": {
+                return [...this.resolveServer(server).files].map(([filename, content]): FileContent => ({ filename, content }));
+            }
+            case "calculateRam": {
+                const { path, target } = this.resolveLocation(filename, server);
+                if (!hasExtension(path, SCRIPT_EXTENSIONS)) {
+                    throw new FakeGameError("Filename isn't a script filename");
+                }
+
+                if (!target.files.has(path)) {
+                    throw new FakeGameError("File doesn't exist");
+                }
+
+                const cost = this.ramCosts.get(`${target.hostname}:${path}`);
+                if (cost === null) {
+                    throw new FakeGameError("Ram cost could not be calculated");
+                }
+
+                return cost ?? BASE_RAM_COST;
+            }
+            case "getAllServers": {
+                return [...this.servers.values()].map(({ hostname, hasAdminRights, purchasedByPlayer }) => ({ hostname, hasAdminRights, purchasedByPlayer }));
+            }
+            case "getDefinitionFile": {
+                return this.definitions;
+            }
+            case "getSaveFile": {
+                return { ...this.save };
+            }
+            default:
+                throw new FakeGameError("Unknown message");
+        }
+    }
+
+    private setFile(server: FakeServer, path: string, content: string) {
+        const now = Date.now();
+        const times = server.times.get(path);
+        server.files.set(path, content);
+        server.times.set(path, { atime: now, btime: times?.btime ?? now, mtime: now });
+    }
+
+    private getServer(hostname: string): FakeServer {
+        const server = this.servers.get(hostname);
+        if (!server) {
+            throw new FakeGameError("Server hostname invalid");
+        }
+
+        return server;
+    }
+
+    private resolvePath(filename: string): string {
+        const path = resolveFilePath(filename);
+        if (!path) {
+            throw new FakeGameError("Invalid file path");
+        }
+
+        return path;
+    }
+
+    private resolveServer(server: unknown): FakeServer {
+        if (typeof server !== "string") {
+            throw new FakeGameError("Message misses parameters");
+        }
+
+        return this.getServer(server);
+    }
+
+    private resolveLocation(filename: unknown, server: unknown): { path: string, target: FakeServer } {
+        if (typeof filename !== "string" || typeof server !== "string") {
+            throw new FakeGameError("Message misses parameters");
+        }
+
+        const path = this.resolvePath(filename);
+        return { path, target: this.getServer(server) };
+    }
+}
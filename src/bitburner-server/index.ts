@@ -1,114 +1,398 @@
 import { IVSCodeExtLogger } from "@vscode-logging/logger";
-import { RawData, WebSocket, WebSocketServer } from "ws";
-import { FileData, Message, Server } from "./interfaces";
+import { IncomingMessage } from "http";
+import { createServer, ServerOptions } from "https";
+import { readFileSync } from "fs";
+import { timingSafeEqual } from "crypto";
+import { RawData, VerifyClientCallbackAsync, WebSocket, WebSocketServer } from "ws";
+import { FileData, FileMetadata, Message, SaveFile, Server } from "./interfaces";
 import { BitburnerError, BitburnerErrorCode } from "./errors";
+import { RelayConfig, RelayManager } from "./relay-manager";
+import { RequestPriority, RequestResource, RpcScheduler } from "./rpc-scheduler";
+import { READ_ONLY_METHODS } from "./relay-policy";
+import { Event, EventEmitter } from "./events";
+import { EXTENSION_ORIGIN, TrafficLog } from "./traffic-log";
+import { CacheableMethod, CacheStats, DEFAULT_CACHE_TTL, ResponseCache } from "./response-cache";
 
 export const DEFAULT_CONFIG: BitburnerConfig = {
     port: 12525, 
+    host: "localhost",
+    tlsCertFile: "",
+    tlsKeyFile: "",
+    toolAuthToken: "",
     messageTimeout: 10000,
+    maxRequestsInFlight: 8,
+    heartbeatInterval: 15000,
     relayServers: [],
+    relayQueueSize: 100,
+    relayMessageTTL: 60000,
+    allowToolConnections: false,
     useServerFolders: false,
     scriptFolder: "src",
+    autoSync: false,
+    fullSyncOnConnect: false,
+    broadcast: false,
+    syncDefinitions: true,
+    definitionFile: "NetscriptDefinitions.d.ts",
+    filePollInterval: 2000,
+    remoteFsDropAction: "ask",
+    backupOnConnect: true,
+    backupInterval: 30,
+    backupFolder: "",
+    backupMaxCount: 20,
+    backupMaxAgeDays: 30,
+    responseCache: false,
+    responseCacheTTL: { ...DEFAULT_CACHE_TTL },
 };
 
 export interface BitburnerConfig {
     port: number;
-    relayServers: string[];
+    /**
+     * Address to listen on. `localhost` only accepts connections from this machine, `0.0.0.0` from anywhere.
+     */
+    host: string;
+    /**
+     * Paths to a PEM certificate and private key. If both are set, the server uses `wss://`.
+     */
+    tlsCertFile: string;
+    tlsKeyFile: string;
+    /**
+     * If set, tools have to send this token to connect at `TOOL_PATH`, either as `Authorization: Bearer <token>` or a `token` query parameter.
+     */
+    toolAuthToken: string;
+    relayServers: (string | RelayConfig)[];
+    /**
+     * Maximum number of relay requests held while the game is disconnected.
+     */
+    relayQueueSize: number;
+    /**
+     * How long relay requests are held while the game is disconnected, in milliseconds.
+     */
+    relayMessageTTL: number;
+    /**
+     * Whether other tools may connect to the server at `TOOL_PATH` and have their requests proxied to the game.
+     * 
+     * Off by default, since any local process could then read and write game files. Browsers are always turned away.
+     */
+    allowToolConnections: boolean;
     messageTimeout: number;
+    /**
+     * Maximum number of requests waiting for a response from a game instance at once. Further requests are queued. 0 for no limit.
+     */
+    maxRequestsInFlight: number;
+    /**
+     * Milliseconds between pings to each game instance. Instances that didn't answer the previous ping are disconnected.
+     * 0 disables heartbeats. Only applies to instances connecting after a change.
+     */
+    heartbeatInterval: number;
     useServerFolders: boolean;
     scriptFolder: string;
+    autoSync: boolean;
+    fullSyncOnConnect: boolean;
+    /**
+     * Whether `pushFile` and `deleteFile` are sent to every connected game instance instead of just the active one.
+     */
+    broadcast: boolean;
+    syncDefinitions: boolean;
+    definitionFile: string;
+    /**
+     * Milliseconds between polls for changes to watched ingame files, while files are changing.
+     * Polling slows down while nothing changes.
+     */
+    filePollInterval: number;
+    /**
+     * What dragging files between servers in the Game Files view does. Files dropped from the workspace are always copied.
+     * 
+     * VS Code doesn't tell extensions which keys were held during a drop, so `ask` stands in for holding Shift to move.
+     */
+    remoteFsDropAction: "ask" | "copy" | "move";
+    backupOnConnect: boolean;
+    /**
+     * Minutes between save backups. 0 disables periodic backups.
+     */
+    backupInterval: number;
+    /**
+     * Workspace-relative folder for save backups. Empty to use the extension's global storage.
+     */
+    backupFolder: string;
+    backupMaxCount: number;
+    backupMaxAgeDays: number;
+    /**
+     * Whether responses to read-only requests are cached.
+     */
+    responseCache: boolean;
+    /**
+     * How long responses are cached per method, in milliseconds. Methods missing here use their default TTL, 0 disables caching for a method.
+     */
+    responseCacheTTL: Partial<Record<CacheableMethod, number>>;
+}
+
+/**
+ * A connected game instance.
+ */
+export interface GameConnection {
+    readonly id: number;
+    /**
+     * Human-readable name for the instance, e.g. `Steam #1` or `Browser #2`.
+     */
+    readonly label: string;
+    readonly connectedAt: Date;
+}
+
+/**
+ * The outcome of a message sent to every connected game instance.
+ */
+export interface BroadcastResult<T> {
+    connection: GameConnection;
+    result?: T | null;
+    error?: unknown;
+}
+
+/**
+ * Lifecycle of the server:
+ * - `stopped`: not started, or stopped through `stop()`.
+ * - `listening`: waiting for a game to connect.
+ * - `game-connected`: at least one game instance is connected.
+ * - `error`: the server couldn't start, e.g. because its port is in use. See `lastError`.
+ */
+export type ServerState = "stopped" | "listening" | "game-connected" | "error";
+
+/**
+ * A file that was pushed to or deleted from a game instance, whether through the extension or a relay.
+ */
+export interface GameFileEvent {
+    connection: GameConnection;
+    server: string;
+    filename: string;
 }
 
-function normalizeAddress(address: string) {
-    if (!address.startsWith("ws://") && !address.startsWith("wss://")) {
-        address = `ws://${address}`;
+/**
+ * A failed request, or an error of the server itself.
+ */
+export interface ServerErrorEvent {
+    /**
+     * The method of the failed request. Undefined for errors of the server itself.
+     */
+    method?: string;
+    connection?: GameConnection;
+    error: unknown;
+}
+
+/**
+ * Options for a single request to the game.
+ */
+export interface RequestOptions {
+    /**
+     * Defaults to `RequestPriority.Normal`.
+     */
+    priority?: RequestPriority;
+    /**
+     * Rejects the request with `BitburnerErrorCode.Cancelled` when aborted.
+     * Requests that were already sent are still processed by the game, their response is just ignored.
+     */
+    signal?: AbortSignal;
+    /**
+     * Who the request is made for, as shown in the traffic log. Defaults to `EXTENSION_ORIGIN`.
+     */
+    origin?: string;
+}
+
+/**
+ * Path tools connect to, to have their requests proxied to the game like a relay's. The game itself connects to `/`.
+ * Tools can identify themselves with a `name` query parameter, e.g. `ws://localhost:12525/tool?name=my-cli`.
+ */
+export const TOOL_PATH = "/tool";
+
+/**
+ * A game connection, along with what we know about it internally.
+ */
+interface GameSocket extends GameConnection {
+    ws: WebSocket;
+    /**
+     * Methods this game instance responded to with "Unknown message", e.g. because it's an older version.
+     */
+    unsupportedMethods: Set<string>;
+    scheduler: RpcScheduler;
+}
+
+function isAuthorized(request: IncomingMessage, url: URL, token: string): boolean {
+    if (!token) {
+        return true;
     }
 
-    return address;
+    const header = request.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    const provided = Buffer.from(header ?? url.searchParams.get("token") ?? "");
+    const expected = Buffer.from(token);
+
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+function toGameConnection({ id, label, connectedAt }: GameConnection): GameConnection {
+    return { id, label, connectedAt };
+}
+
+function getClientLabel(request: IncomingMessage, id: number) {
+    // the Steam version of the game runs in Electron, and Electron helpfully tells us so in its user agent.
+    const client = /electron/i.test(request.headers["user-agent"] ?? "") ? "Steam" : "Browser";
+    return `${client} #${id}`;
 }
 
-// TODO: move relay logic to a separate class
 export class BitburnerServer implements Disposable {
-    private wss!: WebSocketServer;
+    /**
+     * Undefined while the server is stopped.
+     */
+    private wss?: WebSocketServer;
+
+    private _state: ServerState = "stopped";
+    private _lastError?: unknown;
+
+    /**
+     * All connected game instances.
+     */
+    private readonly gameConnections = new Map<number, GameSocket>();
+    private connectionCounter = 0;
 
     /**
-     * The game's active WebSocket connection.
+     * The game instance messages are sent to.
      */
-    private ws?: WebSocket;
+    private activeConnectionId?: number;
 
     /**
      * JSON-RPC message counter
      */
     private messageCounter = 0;
 
-    private messagePromises = new Map<number, {resolve: (response: any) => void, reject: (reason: any) => void}>();
+    private messagePromises = new Map<number, {resolve: (response: any) => void, reject: (reason: any) => void, connectionId: number}>();
+
+    /**
+     * Connections to relay servers, whose requests are forwarded to the game.
+     */
+    public readonly relays: RelayManager;
+
+    /**
+     * Every request sent to the game, for inspection.
+     */
+    public readonly traffic = new TrafficLog(error => this.onListenerError(error));
 
-    private recheckTimeout?: NodeJS.Timeout;
-    private failedRelays = new Set<string>();
+    private readonly cache = new ResponseCache(method => this._config.responseCacheTTL[method] ?? DEFAULT_CACHE_TTL[method]);
 
     get config() {
         return structuredClone(this._config);
     }
 
     constructor(private _config: BitburnerConfig, public readonly logger: IVSCodeExtLogger) {
-        this.start();
-        this.syncRelayConnections();
+        this.relays = new RelayManager(
+            (message, origin) => this.send(message, { origin }),
+            () => this.isConnected,
+            logger.getChildLogger({ label: "relays" }),
+            { maxQueueSize: _config.relayQueueSize, messageTTL: _config.relayMessageTTL },
+        );
+    }
 
-        this.recheckTimeout = setInterval(async () => {
-            for (const address of this.failedRelays) {
-                this.addRelay(address).catch(() => {});
-            }
+    /**
+     * The server's current lifecycle state.
+     */
+    public get state(): ServerState {
+        return this._state;
+    }
 
-            if (this.ws && this.relayQueue.length > 0) {
-                const failed: typeof this.relayQueue = [];
-                while (this.relayQueue.length > 0) {
-                    const entry = this.relayQueue.shift()!;
-                    if (!entry) {
-                        continue;
-                    }
-
-                    const [message, ws, originalId] = entry;
-
-                    try {
-                        const response = await this.send(message);
-                        if (!response) {
-                            // game websocket became unavailable in the meantime. We just try again later.
-                            failed.push(entry);
-                            continue;
-                        }
-
-                        this.logger.trace(`[relay] sent message: ${JSON.stringify(message)} => ${JSON.stringify(response)}`);
-
-                        ws.send(JSON.stringify({
-                            ...message,
-                            id: originalId,
-                            result: response
-                        }));
-                    } catch (err) {
-                        if (err instanceof BitburnerError) {
-                            ws.send(JSON.stringify({
-                                ...message,
-                                id: originalId,
-                                error: err.originalMessage,
-                            }));
-                        }
-                    }
-                }
+    /**
+     * What put the server into the `error` state, if it's in it.
+     */
+    public get lastError(): unknown {
+        return this._lastError;
+    }
 
-                this.relayQueue.push(...failed);
-            }
-        }, 20 * 1000);
+    private readonly onDidChangeStateEmitter = new EventEmitter<ServerState>(error => this.onListenerError(error));
+    /**
+     * Fired when the server starts, stops, fails to start, or the first game connects or the last one disconnects.
+     */
+    public readonly onDidChangeState: Event<ServerState> = this.onDidChangeStateEmitter.event;
+
+    private onListenerError(error: unknown) {
+        this.logger.error(`[server] event listener failed: ${error}`);
+    }
+
+    private setState(state: ServerState, error?: unknown) {
+        this._lastError = state === "error" ? error : undefined;
+        if (this._state === state) {
+            return;
+        }
+
+        this.logger.debug(`[server] state: ${this._state} -> ${state}`);
+        this._state = state;
+        this.onDidChangeStateEmitter.fire(state);
+    }
+
+    /**
+     * Start and stop transitions triggered internally, run one after another so they can't race each other.
+     */
+    private lifecycle: Promise<void> = Promise.resolve();
+
+    /**
+     * Queue a transition after the ones already running. If it fails, the error is reported through `onError` and the server goes into the `error` state.
+     */
+    private queueLifecycle(action: string, transition: () => Promise<void>): Promise<void> {
+        this.lifecycle = this.lifecycle.then(transition).catch(error => {
+            this.logger.error(`[server] failed to ${action}: ${error}`);
+            this.onErrorEmitter.fire({ error });
+            this.setState("error", error);
+        });
+
+        return this.lifecycle;
     }
 
+    /**
+     * Start listening for the game, and connect to relays. Does nothing if the server is already running.
+     * 
+     * Not called by the constructor, so listeners can be attached before the server's first state change.
+     */
     public start() {
+        if (this.wss && this._state !== "error") {
+            this.logger.info(`[server] already running`);
+            return;
+        }
+
+        // a server that failed to start never listened, so there's nothing to wait for.
+        this.wss?.close();
         this.wss = this.setupServer();
+        this.syncRelayConnections();
+    }
+
+    /**
+     * Disconnect all game instances, tools and relays, and stop listening.
+     */
+    public async stop(): Promise<void> {
+        const wss = this.wss;
+        if (!wss) {
+            return;
+        }
+
+        this.wss = undefined;
+        this.logger.info(`[server] stopping`);
+
+        // disconnects outbound relays; tools are connected to our server and get closed with everything else.
+        this.relays.sync([]);
+        for (const client of wss.clients) {
+            client.terminate();
+        }
+
+        await new Promise<void>(resolve => wss.close(() => resolve()));
+        this.setState("stopped");
+    }
+
+    /**
+     * Stop the server and start it again, e.g. after its port changed.
+     */
+    public async restart(): Promise<void> {
+        await this.stop();
+        this.start();
     }
 
     //#region Setup & Connection
     private connectionPromise?: 
         { promise: Promise<BitburnerServer>, resolve: (server: BitburnerServer) => void }; 
     public async awaitConnection(): Promise<BitburnerServer> {
-        if (this.ws) {
+        if (this.isConnected) {
             return this;
         }
 
@@ -120,133 +404,245 @@ export class BitburnerServer implements Disposable {
         return this.connectionPromise!.promise;
     }
 
-    private onGameConnectedCb?: () => void;
     /**
-     * Register a callback that will be called when a game connects.
+     * Whether at least one game instance is connected.
      */
-    public onGameConnected(cb: () => void) {
-        this.onGameConnectedCb = cb;
+    public get isConnected(): boolean {
+        return this.gameConnections.size > 0;
     }
 
-    private onGameDisconnectedCb?: () => void;
     /**
-     * Register a callback that will be called when a game disconnects.
+     * All connected game instances, in the order they connected.
      */
-    public onGameDisconnected(cb: () => void) {
-        this.onGameDisconnectedCb = cb;
+    public get connections(): GameConnection[] {
+        return [...this.gameConnections.values()].map(toGameConnection);
     }
 
-    private readonly relayConnections = new Map<string, WebSocket>();
     /**
-     * Messages that came in while we were disconnected.
+     * The game instance messages are currently sent to.
      */
-    private readonly relayQueue: [Message, WebSocket, number][] = [];
+    public get activeConnection(): GameConnection | undefined {
+        return this.connections.find(connection => connection.id === this.activeConnectionId);
+    }
+
     /**
-     * Add a relay WebSocket connection. 
-     * Messages from this socket will be sent to the game, and their responses relayed back to the original server.
+     * Make a connected game instance the target for all further messages.
      * 
-     * @returns true if the connection was successful, false if not.
+     * @returns false if there's no connected instance with that id.
      */
-    public async addRelay(address: string): Promise<void> {
-        address = normalizeAddress(address);
+    public setActiveConnection(id: number): boolean {
+        const connection = this.gameConnections.get(id);
+        if (!connection) {
+            return false;
+        }
 
-        this.logger.info(`[relay] attempting to connect to to ${address}`);
+        this.activeConnectionId = id;
+        this.logger.info(`[server] active game instance is now ${connection.label}`);
+        this.onDidChangeActiveConnectionEmitter.fire(toGameConnection(connection));
+        return true;
+    }
 
-        let res!: () => void;
-        let rej!: (err: any) => void;
-        const promise = new Promise<void>((resolve, reject) => {
-            res = resolve;
-            rej = reject;
-        });
-        
-        try {
-            const ws = new WebSocket(address);
-            this.setupRelay(ws);
-            
-            ws.on("close", () => {
-                this.relayConnections.delete(address);
-            });
-            ws.on("open", () => {
-                res(); 
-            });
-
-            ws.on("error", err => {
-                this.logger.error(`[relay] ${address}: ${err}`);
-            });
-
-            if (ws.readyState === WebSocket.OPEN) {
-                res();
-            }
+    private readonly onGameConnectedEmitter = new EventEmitter<GameConnection>(error => this.onListenerError(error));
+    /**
+     * Fired when a game instance connects.
+     */
+    public readonly onGameConnected: Event<GameConnection> = this.onGameConnectedEmitter.event;
 
-            this.logger.info(`[relay] connected to ${address}`);
+    private readonly onGameDisconnectedEmitter = new EventEmitter<GameConnection>(error => this.onListenerError(error));
+    /**
+     * Fired when a game instance disconnects.
+     * Other game instances may still be connected, check `isConnected`.
+     */
+    public readonly onGameDisconnected: Event<GameConnection> = this.onGameDisconnectedEmitter.event;
+
+    private readonly onDidChangeActiveConnectionEmitter = new EventEmitter<GameConnection | undefined>(error => this.onListenerError(error));
+    /**
+     * Fired when messages are sent to a different game instance, or to none at all because the last one disconnected.
+     */
+    public readonly onDidChangeActiveConnection: Event<GameConnection | undefined> = this.onDidChangeActiveConnectionEmitter.event;
 
-            this.relayConnections.set(address, ws);
-        } catch (error) {
-            this.failedRelays.add(address);
-            this.logger.info(`[relay] failed to connect to ${address}: ${error}`);
-            res();
+    private readonly onDidPushFileEmitter = new EventEmitter<GameFileEvent>(error => this.onListenerError(error));
+    /**
+     * Fired when a file was pushed to a game instance, by the extension or a relay.
+     */
+    public readonly onDidPushFile: Event<GameFileEvent> = this.onDidPushFileEmitter.event;
+
+    private readonly onDidDeleteFileEmitter = new EventEmitter<GameFileEvent>(error => this.onListenerError(error));
+    /**
+     * Fired when a file was deleted from a game instance, by the extension or a relay.
+     */
+    public readonly onDidDeleteFile: Event<GameFileEvent> = this.onDidDeleteFileEmitter.event;
+
+    private readonly onErrorEmitter = new EventEmitter<ServerErrorEvent>(error => this.onListenerError(error));
+    /**
+     * Fired when a request fails, or the server itself runs into an error. Cancelled requests don't count as failed.
+     */
+    public readonly onError: Event<ServerErrorEvent> = this.onErrorEmitter.event;
+
+    /**
+     * Fired when a relay's connection state or message counts change.
+     */
+    public get onDidChangeRelay() {
+        return this.relays.onDidChangeRelay;
+    }
+
+    /**
+     * Read the configured certificate and key.
+     * 
+     * @returns undefined if TLS isn't configured, or null if it's misconfigured.
+     */
+    private getTlsOptions(): ServerOptions | undefined | null {
+        const { tlsCertFile, tlsKeyFile } = this._config;
+        if (!tlsCertFile && !tlsKeyFile) {
+            return undefined;
         }
 
-        return promise;
+        if (!tlsCertFile || !tlsKeyFile) {
+            this.logger.error(`[server] TLS needs both a certificate and a key file`);
+            return null;
+        }
+
+        try {
+            return { cert: readFileSync(tlsCertFile), key: readFileSync(tlsKeyFile) };
+        } catch (e) {
+            this.logger.error(`[server] failed to read TLS certificate or key: ${e}`);
+            return null;
+        }
     }
 
-    private setupRelay(ws: WebSocket) {
-        ws.on("message", async data => {
-            this.logger.trace(`[relay] received message: ${data}`);
-            const message: Message = JSON.parse(data.toString());
-            if (message.jsonrpc !== "2.0" || typeof message.id !== "number") {
-                return;
-            }
+    /**
+     * Turns away tool connections before they're upgraded, unless they're enabled and authorized.
+     * Game connections are always accepted.
+     */
+    private readonly verifyClient: VerifyClientCallbackAsync = ({ req }, callback) => {
+        const url = new URL(req.url ?? "/", "ws://localhost");
+        if (url.pathname !== TOOL_PATH) {
+            return callback(true);
+        }
 
-            const actualMessage = {...message, id: this.messageCounter++};
+        const reject = (code: number, reason: string) => {
+            this.logger.warn(`[server] rejected tool connection: ${reason}`);
+            callback(false, code, reason);
+        };
 
-            if (this.ws) {
-                const response = await this.send(actualMessage).catch(() => null);
-                if (!response) {
-                    this.logger.error(`[relay] failed to send message: ${data}`);
-                    return;
-                }
+        if (!this._config.allowToolConnections) {
+            return reject(403, "Tool connections are disabled");
+        }
 
-                ws.send(JSON.stringify({
-                    ...message,
-                    result: response
-                }));
-            } else {
-                this.relayQueue.push([actualMessage, ws, message.id]);
-            }
-        });
+        // browsers always send an Origin, local tools don't. Without this, any open web page could reach the game.
+        if (req.headers.origin !== undefined) {
+            return reject(403, "Tool connections from browsers are not allowed");
+        }
+
+        if (!isAuthorized(req, url, this._config.toolAuthToken)) {
+            return reject(401, "Invalid token");
+        }
+
+        callback(true);
+    };
+
+    private createWebSocketServer(): WebSocketServer {
+        const { port, host } = this._config;
+        const verifyClient = this.verifyClient;
+        const tls = this.getTlsOptions();
+
+        if (tls === null) {
+            // rather not listen at all than silently fall back to unencrypted connections.
+            const error = new Error("Invalid TLS configuration, server not started");
+            this.onErrorEmitter.fire({ error });
+            this.setState("error", error);
+            return new WebSocketServer({ noServer: true });
+        }
+
+        if (!tls) {
+            return new WebSocketServer({ port, host, verifyClient });
+        }
+
+        const httpsServer = createServer(tls);
+        const wss = new WebSocketServer({ server: httpsServer, verifyClient });
+        // `ws` doesn't close servers it didn't create itself.
+        wss.once("close", () => httpsServer.close());
+        httpsServer.listen(port, host);
+
+        return wss;
     }
 
     private setupServer(): WebSocketServer {
-        const wss = new WebSocketServer({port: this._config.port});
+        const wss = this.createWebSocketServer();
+
+        wss.on("connection", (ws, request) => {
+            const url = new URL(request.url ?? "/", "ws://localhost");
+            // `verifyClient` already turned away tools that aren't allowed.
+            if (url.pathname === TOOL_PATH) {
+                this.relays.acceptInbound(ws, url.searchParams.get("name") || "tool");
+                return;
+            }
+
+            const id = ++this.connectionCounter;
+            const connection: GameSocket = { id, label: getClientLabel(request, id), connectedAt: new Date(), ws, unsupportedMethods: new Set(),
+                scheduler: new RpcScheduler(() => this._config.maxRequestsInFlight) };
 
-        wss.on("connection", (ws) => {
-            // we're assuming one game instance at a time.
-            this.ws = ws;
-            this.setupClient(ws);
+            this.gameConnections.set(id, connection);
+            // the most recently connected instance is what the user most likely wants to work with.
+            this.activeConnectionId = id;
+            this.logger.info(`[server] game instance ${connection.label} connected`);
+
+            // a reconnecting game may have changed anything while it was gone.
+            this.cache.clear();
+            this.setupClient(connection);
             this.connectionPromise?.resolve(this);
-            this.onGameConnectedCb?.();
+            this.relays.flushQueue();
+            this.setState("game-connected");
+            this.onGameConnectedEmitter.fire(toGameConnection(connection));
+            this.onDidChangeActiveConnectionEmitter.fire(toGameConnection(connection));
         });
 
         wss.on("close", () => {
-            this.ws = undefined;
+            this.gameConnections.clear();
+            this.cache.clear();
+            this.activeConnectionId = undefined;
         });
 
         wss.on("error", (err) => {
             this.logger.error(`[server] ${err}`);
+            this.onErrorEmitter.fire({ error: err });
+
+            // errors of a server that's already listening don't stop it.
+            if (this.wss === wss && this._state !== "listening" && this._state !== "game-connected") {
+                this.setState("error", err);
+            }
         });
 
         wss.on("listening", () => {
-            this.logger.info(`[server] listening on port ${this._config.port}`);
+            const protocol = this._config.tlsCertFile && this._config.tlsKeyFile ? "wss" : "ws";
+            this.logger.info(`[server] listening on ${protocol}://${this._config.host}:${this._config.port}`);
+            this.setState(this.isConnected ? "game-connected" : "listening");
         });
 
         return wss;
     }
 
-    private setupClient(ws: WebSocket) {
+    private setupClient(connection: GameSocket) {
+        const { id, label, ws, scheduler } = connection;
+        const heartbeat = this.startHeartbeat(ws, label);
+
         ws.on("close", () => {
-            this.ws = undefined;
-            this.onGameDisconnectedCb?.();
+            clearInterval(heartbeat);
+            this.gameConnections.delete(id);
+            this.rejectPending(id, scheduler);
+            this.cache.clear(id);
+            this.logger.info(`[server] game instance ${label} disconnected`);
+
+            this.onGameDisconnectedEmitter.fire(toGameConnection(connection));
+
+            if (this.activeConnectionId === id) {
+                this.activeConnectionId = [...this.gameConnections.keys()].pop();
+                this.onDidChangeActiveConnectionEmitter.fire(this.activeConnection);
+            }
+
+            if (!this.isConnected && this._state === "game-connected") {
+                this.setState("listening");
+            }
         });
         
         ws.on("message", data => {
@@ -255,6 +651,48 @@ export class BitburnerServer implements Disposable {
         });
     }
 
+    /**
+     * Ping a game instance every `heartbeatInterval`, and disconnect it if it didn't answer the previous ping,
+     * e.g. because the browser tab is frozen or the network dropped.
+     */
+    private startHeartbeat(ws: WebSocket, label: string): NodeJS.Timeout | undefined {
+        const interval = this._config.heartbeatInterval;
+        if (interval <= 0) {
+            return;
+        }
+
+        let alive = true;
+        const markAlive = () => { alive = true; };
+        ws.on("pong", markAlive);
+        ws.on("message", markAlive);
+
+        return setInterval(() => {
+            if (!alive) {
+                this.logger.warn(`[server] game instance ${label} didn't answer a heartbeat, disconnecting`);
+                ws.terminate();
+                return;
+            }
+
+            alive = false;
+            ws.ping();
+        }, interval);
+    }
+
+    /**
+     * Reject every request to a game instance that's queued or waiting for a response.
+     */
+    private rejectPending(connectionId: number, scheduler: RpcScheduler) {
+        const error = () => new BitburnerError(BitburnerErrorCode.GameDisconnected, "Game disconnected");
+        scheduler.clear(error());
+
+        for (const [id, promise] of this.messagePromises) {
+            if (promise.connectionId === connectionId) {
+                this.messagePromises.delete(id);
+                promise.reject(error());
+            }
+        }
+    }
+
     private handleMessage(data: RawData) {
         const message = JSON.parse(data.toString()) as Message;
 
@@ -293,48 +731,61 @@ export class BitburnerServer implements Disposable {
         const old = structuredClone(this._config) as typeof this._config;
         Object.assign(this._config, config);
 
-        if (old.port !== this._config.port) {
-            this.logger.info(`[server] changing port from ${old.port} to ${this._config.port}`);
-            this.wss.close();
-            this.wss = this.setupServer();
+        const listenChanged = (["port", "host", "tlsCertFile", "tlsKeyFile"] as const).some(key => old[key] !== this._config[key]);
+        if (listenChanged && this._state !== "stopped") {
+            this.logger.info(`[server] restarting on ${this._config.host}:${this._config.port}`);
+            this.queueLifecycle("restart", () => this.restart());
+        }
+
+        if (!this._config.responseCache) {
+            this.cache.clear();
         }
 
+        this.relays.queueOptions = { maxQueueSize: this._config.relayQueueSize, messageTTL: this._config.relayMessageTTL };
         this.syncRelayConnections();
     }
 
+    /**
+     * Connect to new relay servers from the config, and disconnect from removed ones.
+     */
     public syncRelayConnections() {
-        this.logger.info(`[server] syncing ${this._config.relayServers.length} relay servers: ${this._config.relayServers.join(", ")}`);
-        const seen = new Set<string>();
-        for (const address of this._config.relayServers.map(address => normalizeAddress(address))) {
-            if (!this.relayConnections.has(address) && !this.failedRelays.has(address)) {
-                this.addRelay(address).catch(() => {});
-            }
-
-            seen.add(address);
+        // relays are connected again once the server starts.
+        if (!this.wss) {
+            return;
         }
 
-        for (const [address, ws] of [...this.relayConnections.entries()].map(([address, ws]) => [normalizeAddress(address), ws] as const)) {
-            if (seen.has(address)) {
-                continue;
-            }
-            ws.close();
-        }
+        const addresses = this._config.relayServers.map(relay => typeof relay === "string" ? relay : relay.address);
+        this.logger.info(`[server] syncing ${addresses.length} relay servers: ${addresses.join(", ")}`);
+        this.relays.sync(this._config.relayServers);
+    }
 
-        for (const address of this.failedRelays) {
-            if (seen.has(address)) {
-                continue;
-            }
-            this.failedRelays.delete(address);
-        }
+    /**
+     * Hit and miss counts of the response cache since it was last reset.
+     */
+    public get cacheStats(): CacheStats {
+        return this.cache.stats;
+    }
+
+    /**
+     * Drop all cached responses and reset the cache's stats.
+     */
+    public clearCache() {
+        this.cache.clear();
+        this.cache.resetStats();
     }
 
     [Symbol.dispose]() {
-        this.ws?.close();
-        this.wss.close();
-        for (const ws of this.relayConnections.values()) {
-            ws.close();
-        }
-        clearTimeout(this.recheckTimeout);
+        this.queueLifecycle("stop", () => this.stop());
+        this.relays.dispose();
+
+        this.onDidChangeStateEmitter.dispose();
+        this.onGameConnectedEmitter.dispose();
+        this.onGameDisconnectedEmitter.dispose();
+        this.onDidChangeActiveConnectionEmitter.dispose();
+        this.onDidPushFileEmitter.dispose();
+        this.onDidDeleteFileEmitter.dispose();
+        this.onErrorEmitter.dispose();
+        this.traffic.dispose();
     }
     
     // to comply with VSCode's own `Disposable` interface.
@@ -345,18 +796,94 @@ export class BitburnerServer implements Disposable {
     //#region RPC Methods
     /**
      * Send a message to the game.
+     * Messages are queued while `maxRequestsInFlight` requests are waiting for a response, and identical reads are only sent once.
+     * 
+     * @param connectionId The game instance to send the message to. Defaults to the active instance.
      * 
      * @returns A promise that resolves to the response for the sent message, or `null` if the game is not connected.
      */
-    private send<T>(message: Omit<Message, "id" | "jsonrpc">): Promise<T | null> {
-        if (!this.ws) {
+    private send<T>(message: Omit<Message, "id" | "jsonrpc">, options: RequestOptions = {}, connectionId = this.activeConnectionId): Promise<T | null> {
+        const connection = connectionId !== undefined ? this.gameConnections.get(connectionId) : undefined;
+        if (!connection) {
             return Promise.resolve(null);
         }
 
+        if (message.method && connection.unsupportedMethods.has(message.method)) {
+            return Promise.reject(new BitburnerError(BitburnerErrorCode.UnknownMessage, "Unknown message"));
+        }
+
+        const traffic = this.traffic.start(message, options.origin ?? EXTENSION_ORIGIN, connection.label);
+
+        const cacheable = this._config.responseCache && this.cache.isCacheable(message);
+        if (cacheable) {
+            const cached = this.cache.get<T>(connection.id, message);
+            if (cached) {
+                this.logger.trace(`[server] cache hit for ${message.method}`);
+                this.traffic.finish(traffic, undefined, true);
+                return Promise.resolve(cached.result);
+            }
+        }
+
+        // writes invalidate whatever they touch, whether they come from us or a relay.
+        const written = (message.method === "pushFile" || message.method === "deleteFile") ?
+            message.params as { filename: string, server: string } : undefined;
+        if (written) {
+            this.cache.invalidateFile(connection.id, written.server, written.filename);
+        }
+
+        const key = message.method && READ_ONLY_METHODS.includes(message.method) ?
+            JSON.stringify([message.method, message.params ?? null]) : undefined;
+
+        const { server, filename } = (message.params ?? {}) as { server?: unknown, filename?: unknown };
+        const resource: RequestResource | undefined = typeof server === "string" ? {
+            server,
+            filename: typeof filename === "string" ? filename.replace(/^\/+/, "") : undefined,
+            write: written !== undefined,
+        } : undefined;
+
+        return connection.scheduler.schedule(key, options.priority ?? RequestPriority.Normal, () => this.write<T>(connection, message), options.signal, resource)
+        .then(result => {
+            if (cacheable) {
+                this.cache.set(connection.id, message, result);
+            }
+
+            if (written && result === "OK") {
+                const emitter = message.method === "pushFile" ? this.onDidPushFileEmitter : this.onDidDeleteFileEmitter;
+                emitter.fire({ connection: toGameConnection(connection), server: written.server, filename: written.filename });
+            }
+
+            this.traffic.finish(traffic);
+            return result;
+        }, e => {
+            this.traffic.finish(traffic, e);
+
+            if (!(e instanceof BitburnerError && e.code === BitburnerErrorCode.Cancelled)) {
+                this.onErrorEmitter.fire({ method: message.method, connection: toGameConnection(connection), error: e });
+            }
+
+            if (e instanceof BitburnerError && e.code === BitburnerErrorCode.UnknownMessage && message.method) {
+                this.logger.info(`[server] ${connection.label} doesn't support ${message.method}`);
+                connection.unsupportedMethods.add(message.method);
+            }
+
+            throw e;
+        }).finally(() => {
+            if (written) {
+                this.cache.invalidateFile(connection.id, written.server, written.filename);
+            }
+        });
+    }
+
+    /**
+     * Write a message to a game instance's socket.
+     * 
+     * @returns A promise that resolves to the response, or rejects once `messageTimeout` passed without one.
+     */
+    private write<T>(connection: GameSocket, message: Omit<Message, "id" | "jsonrpc">): Promise<T> {
         const fullMessage = { ...message, id: this.messageCounter++, jsonrpc: "2.0" };
 
         const promise = new Promise<T>((resolve, reject) => {
-            this.messagePromises.set(fullMessage.id, { resolve, reject });
+            this.messagePromises.set(fullMessage.id, { resolve, reject, connectionId: connection.id });
             
             setTimeout(() => {
                 if (this.messagePromises.has(fullMessage.id)) {
@@ -367,31 +894,86 @@ export class BitburnerServer implements Disposable {
 
         });
 
-        this.ws.send(JSON.stringify(fullMessage));
+        connection.ws.send(JSON.stringify(fullMessage));
 
         return promise;
     }
 
+    /**
+     * Send a message to every connected game instance.
+     * 
+     * @returns The response or error of every instance.
+     */
+    private broadcast<T>(message: Omit<Message, "id" | "jsonrpc">, options: RequestOptions = {}): Promise<BroadcastResult<T>[]> {
+        return Promise.all(this.connections.map(connection => 
+            this.send<T>(message, options, connection.id).then(
+                result => ({ connection, result }),
+                error => ({ connection, error }),
+            )
+        ));
+    }
+
+    /**
+     * Collapse the results of an `"OK"`-returning broadcast into a single result, like it was sent to one instance.
+     * 
+     * @throws The first error any instance responded with.
+     */
+    private settleBroadcast(method: string, results: BroadcastResult<"OK">[]): boolean {
+        for (const { connection, result, error } of results) {
+            if (error) {
+                this.logger.warn(`[server] ${method} failed on ${connection.label}: ${error}`);
+            }
+        }
+
+        const failed = results.find(({ error }) => error);
+        if (failed) {
+            throw failed.error;
+        }
+
+        return results.length > 0 && results.every(({ result }) => result === "OK");
+    }
+
     
     /**
      * Push a file to a server.
+     * With `broadcast` enabled, the file is pushed to every connected game instance.
      * 
      * @throws { BitburnerError<BitburnerErrorCode.InvalidFile> } If the file path is invalid.
      * @throws { BitburnerError<BitburnerErrorCode.InvalidHostname> } If the server hostname is invalid.
      * @throws { BitburnerError<BitburnerErrorCode.InvalidFileExtension> } If the `filename`'s extension isn't a script or text extension.
      */
-    async pushFile(filename: string, content: string, server = "home"): Promise<boolean> {
-        return this.send<"OK">({
+    async pushFile(filename: string, content: string, server = "home", options: RequestOptions = {}): Promise<boolean> {
+        const message = {
             method: "pushFile",
             params: {
                 filename,
                 content,
                 server
             }
-        })
+        };
+
+        if (this._config.broadcast) {
+            return this.settleBroadcast("pushFile", await this.broadcast<"OK">(message, options));
+        }
+
+        return this.send<"OK">(message, options)
         .then(res => res === "OK");
     }
 
+    /**
+     * Push a file to a server in every connected game instance, regardless of `broadcast`.
+     */
+    async pushFileToAll(filename: string, content: string, server = "home", options: RequestOptions = {}): Promise<BroadcastResult<"OK">[]> {
+        return this.broadcast<"OK">({
+            method: "pushFile",
+            params: {
+                filename,
+                content,
+                server
+            }
+        }, options);
+    }
+
     /**
      * Get the content of a file.
      * 
@@ -399,58 +981,96 @@ export class BitburnerServer implements Disposable {
      * @throws { BitburnerError<BitburnerErrorCode.InvalidHostname> } If the server hostname is invalid.
      * @throws { BitburnerError<BitburnerErrorCode.FileNotFound> } If the file doesn't exist.
      */
-    async getFileContent(filename: string, server = "home"): Promise<string | null> {
+    async getFileContent(filename: string, server = "home", options: RequestOptions = {}): Promise<string | null> {
         return this.send<string>({
             method: "getFile",
             params: {
                 filename,
                 server
             }
-        });
+        }, options);
     }
 
     /**
      * Delete a file on an ingame server.
+     * With `broadcast` enabled, the file is deleted in every connected game instance.
      * 
      * @throws { BitburnerError<BitburnerErrorCode.InvalidFile> } If the file path is invalid.
      * @throws { BitburnerError<BitburnerErrorCode.InvalidHostname> } If the server hostname is invalid.
      * @throws { BitburnerError<BitburnerErrorCode.Failed> } If the file couldn't be deleted.
      */
     // TODO: Update the error code parser, cuz this can throw a *host* of errors, all different variants of "... file not found".
-    async deleteFile(filename: string, server = "home"): Promise<boolean> {
-        return this.send<"OK">({
+    async deleteFile(filename: string, server = "home", options: RequestOptions = {}): Promise<boolean> {
+        const message = {
             method: "deleteFile",
             params: {
                 filename,
                 server
             },
-        })
+        };
+
+        if (this._config.broadcast) {
+            return this.settleBroadcast("deleteFile", await this.broadcast<"OK">(message, options));
+        }
+
+        return this.send<"OK">(message, options)
         .then(res => res === "OK");
     }
 
+    /**
+     * Delete a file on a server in every connected game instance, regardless of `broadcast`.
+     */
+    async deleteFileFromAll(filename: string, server = "home", options: RequestOptions = {}): Promise<BroadcastResult<"OK">[]> {
+        return this.broadcast<"OK">({
+            method: "deleteFile",
+            params: {
+                filename,
+                server
+            },
+        }, options);
+    }
+
     /**
      * Get the names of all files on a server.
      * 
      * @throws { BitburnerError<BitburnerErrorCode.InvalidHostname> } If the server hostname is invalid.
      */
-    async getFileNames(server = "home"): Promise<string[] | null> {
+    async getFileNames(server = "home", options: RequestOptions = {}): Promise<string[] | null> {
         return this.send<string[]>({
             method: "getFileNames",
             params: {
                 server
             }
-        }).catch(() => null);
+        }, options).catch(() => null);
     }
 
 
+    /**
+     * Get the creation, modification and access times of a file.
+     * 
+     * @throws { BitburnerError<BitburnerErrorCode.InvalidFile> } If the file path is invalid.
+     * @throws { BitburnerError<BitburnerErrorCode.InvalidHostname> } If the server hostname is invalid.
+     * @throws { BitburnerError<BitburnerErrorCode.FileNotFound> } If the file doesn't exist.
+     * @throws { BitburnerError<BitburnerErrorCode.UnknownMessage> } If the game is too old to support file metadata.
+     */
+    async getFileMetadata(filename: string, server = "home", options: RequestOptions = {}): Promise<FileMetadata | null> {
+        return this.send<FileMetadata>({
+            method: "getFileMetadata",
+            params: {
+                filename,
+                server
+            }
+        }, options);
+    }
+
     /**
      * Get the `NetScriptDefinitions.d.ts` file for the game.
      */
-    async getDefinitionFile(): Promise<string | null> {
+    async getDefinitionFile(options: RequestOptions = {}): Promise<string | null> {
         // this shouldn't ever throw.
         return this.send<string>({
             method: "getDefinitionFile",
-        });
+        }, options);
     }
 
     /**
@@ -458,13 +1078,13 @@ export class BitburnerServer implements Disposable {
      * 
      * @throws { BitburnerError<BitburnerErrorCode.InvalidHostname> } If the server hostname is invalid.
      */
-    async getFiles(server = "home"): Promise<FileData[] | null> {
+    async getFiles(server = "home", options: RequestOptions = {}): Promise<FileData[] | null> {
         return this.send<FileData[]>({
             method: "getFiles",
             params: {
                 server
             }
-        }).catch(() => null);
+        }, options);
     }
 
     /**
@@ -476,14 +1096,14 @@ export class BitburnerServer implements Disposable {
      * 
      * @returns the script's static RAM usage, `-1` if the script's RAM could not be calculated, or null if the game isn't connected.
      */
-    async calculateRam(filename: string, server = "home"): Promise<number | null> {
+    async calculateRam(filename: string, server = "home", options: RequestOptions = {}): Promise<number | null> {
         return this.send<number>({
             method: "calculateRam",
             params: {
                 filename,
                 server,
             },
-        }).catch(e => {
+        }, options).catch(e => {
             if (e instanceof BitburnerError && e.code === BitburnerErrorCode.RamNotCalculated) {
                 return -1;
             } else {
@@ -495,10 +1115,19 @@ export class BitburnerServer implements Disposable {
     /**
      * Get all servers that currently exist in the game.
      */
-    async getAllServers(): Promise<Server[] | null> {
+    async getAllServers(options: RequestOptions = {}): Promise<Server[] | null> {
         return this.send<Server[]>({
             method: "getAllServers",
-        });
+        }, options);
+    }
+
+    /**
+     * Get the game's current save file.
+     */
+    async getSaveFile(options: RequestOptions = {}): Promise<SaveFile | null> {
+        return this.send<SaveFile>({
+            method: "getSaveFile",
+        }, options);
     }
     //#endregion
 }
\ No newline at end of file
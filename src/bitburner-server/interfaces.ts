@@ -6,13 +6,13 @@ export interface Message {
     jsonrpc: "2.0";
     method?: string;
     result?: ResultType;
-    params?: FileMetadata;
+    params?: MessageParams;
     error?: string;
     id?: number;
 }
 
-type ResultType = string | number | string[] | FileContent[];
-type FileMetadata = FileData | FileContent | FileLocation | FileServer;
+type ResultType = string | number | string[] | FileContent[] | Server[] | FileMetadata | SaveFile;
+type MessageParams = FileData | FileContent | FileLocation | FileServer;
 
 export interface FileData {
     filename: string;
@@ -47,4 +47,32 @@ export interface Server {
     hostname: string;
     hasAdminRights: boolean;
     purchasedByPlayer: boolean;
-}
\ No newline at end of file
+}
+
+export interface FileMetadata {
+    filename: string;
+    /**
+     * Last access time. Depending on the game version, either a timestamp or a date string.
+     */
+    atime: number | string;
+    /**
+     * Creation ("birth") time.
+     */
+    btime: number | string;
+    /**
+     * Last modification time.
+     */
+    mtime: number | string;
+}
+
+export interface SaveFile {
+    /**
+     * Identifies the save, e.g. the player's identifier.
+     */
+    identifier: string;
+    /**
+     * Whether `save` is base64-encoded gzip data rather than plain JSON.
+     */
+    binary: boolean;
+    save: string;
+}
@@ -0,0 +1,549 @@
+import { IChildLogger } from "@vscode-logging/logger";
+import { WebSocket } from "ws";
+import { Message } from "./interfaces";
+import { BitburnerError } from "./errors";
+import { EventEmitter } from "./events";
+import { RelayPolicy, RelayRequest, applyRequestPolicy, applyResponsePolicy } from "./relay-policy";
+
+/**
+ * A relay server entry in the settings. Plain strings are addresses of relays without a policy.
+ */
+export interface RelayConfig extends RelayAuth {
+    address: string;
+    policy?: RelayPolicy;
+}
+
+/**
+ * Credentials sent when connecting to a relay. Kept out of `RelayStatus`, so they don't show up in the UI.
+ */
+export interface RelayAuth {
+    /**
+     * Sent as `Authorization: Bearer <token>`.
+     */
+    token?: string;
+    /**
+     * Additional headers for the connection request, e.g. `{ "X-Api-Key": "..." }`.
+     */
+    headers?: Record<string, string>;
+}
+
+export type RelayState = "connecting" | "open" | "failed" | "closed";
+
+export interface RelayStatus {
+    /**
+     * The relay's address. For inbound tool connections, this is the tool's name with a unique suffix.
+     */
+    address: string;
+    /**
+     * Whether the tool connected to us (`inbound`), rather than us connecting to it.
+     */
+    direction: "outbound" | "inbound";
+    state: RelayState;
+    /**
+     * The last error the connection ran into, if any.
+     */
+    lastError?: string;
+    /**
+     * Requests received from the relay.
+     */
+    messagesReceived: number;
+    /**
+     * Responses sent back to the relay.
+     */
+    messagesSent: number;
+    /**
+     * Failed connection attempts since the relay was last open.
+     */
+    retries: number;
+    /**
+     * When the next connection attempt is scheduled, if the relay failed.
+     */
+    nextRetry?: Date;
+    policy?: RelayPolicy;
+}
+
+export interface RelayQueueOptions {
+    /**
+     * Maximum number of requests held while the game is disconnected. When full, the oldest request is dropped.
+     */
+    maxQueueSize: number;
+    /**
+     * How long a request is held, in milliseconds, before it expires.
+     */
+    messageTTL: number;
+}
+
+interface QueuedRequest {
+    request: RelayRequest;
+    ws: WebSocket;
+    /**
+     * The request's id, as sent by the relay.
+     */
+    id: number;
+    expiresAt: number;
+}
+
+interface RelayEntry {
+    status: RelayStatus;
+    auth?: RelayAuth;
+    ws?: WebSocket;
+    retryTimeout?: NodeJS.Timeout;
+}
+
+/**
+ * Sends a message to the game and resolves to its response, or null if the game is not connected.
+ * `origin` identifies the relay in the traffic log.
+ */
+export type RelaySendFunction = <T>(message: RelayRequest, origin: string) => Promise<T | null>;
+
+const RETRY_BASE_DELAY = 2 * 1000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+export function normalizeRelayConfig(relay: string | RelayConfig): RelayConfig {
+    return typeof relay === "string" ? { address: normalizeAddress(relay) } : { ...relay, address: normalizeAddress(relay.address) };
+}
+
+export function normalizeAddress(address: string) {
+    if (!address.startsWith("ws://") && !address.startsWith("wss://")) {
+        address = `ws://${address}`;
+    }
+
+    return address;
+}
+
+function getAuthHeaders(auth?: RelayAuth): Record<string, string> {
+    const headers = { ...auth?.headers };
+    if (auth?.token) {
+        headers["Authorization"] = `Bearer ${auth.token}`;
+    }
+
+    return headers;
+}
+
+/**
+ * Manages connections to relay servers (like bitburner-filesync).
+ * Requests from relays are sent to the game, and their responses relayed back to the original server.
+ */
+export class RelayManager implements Disposable {
+    private readonly relays = new Map<string, RelayEntry>();
+    private inboundCounter = 0;
+
+    /**
+     * Messages that came in while we were disconnected.
+     */
+    private readonly relayQueue: QueuedRequest[] = [];
+    private sweepTimeout?: NodeJS.Timeout;
+
+    private readonly onDidChangeRelayEmitter = new EventEmitter<RelayStatus>(error => this.logger.error(`[relay] event listener failed: ${error}`));
+    /**
+     * Fired whenever a relay's state or message counts change.
+     */
+    public readonly onDidChangeRelay = this.onDidChangeRelayEmitter.event;
+
+    private readonly onDidChangeQueueEmitter = new EventEmitter<number>(error => this.logger.error(`[relay] event listener failed: ${error}`));
+    /**
+     * Fired with the new queue depth whenever requests are queued or leave the queue.
+     */
+    public readonly onDidChangeQueue = this.onDidChangeQueueEmitter.event;
+
+    constructor(
+        private readonly send: RelaySendFunction,
+        private readonly isGameConnected: () => boolean,
+        private readonly logger: IChildLogger,
+        public queueOptions: RelayQueueOptions,
+    ) {}
+
+    /**
+     * Number of requests waiting for the game to connect.
+     */
+    public get queueDepth(): number {
+        return this.relayQueue.length;
+    }
+
+    /**
+     * The status of every known relay.
+     */
+    public get statuses(): RelayStatus[] {
+        return [...this.relays.values()].map(({ status }) => ({ ...status }));
+    }
+
+    public getStatus(address: string): RelayStatus | undefined {
+        const entry = this.find(address);
+        return entry ? { ...entry.status } : undefined;
+    }
+
+    private find(address: string): RelayEntry | undefined {
+        return this.relays.get(address) ?? this.relays.get(normalizeAddress(address));
+    }
+
+    /**
+     * Connect to every relay in `relays` that isn't known yet, update the policies of known ones,
+     * and remove relays that are not in `relays` anymore.
+     */
+    public sync(relays: (string | RelayConfig)[]) {
+        const seen = new Set<string>();
+
+        for (const { address, policy, token, headers } of relays.map(normalizeRelayConfig)) {
+            seen.add(address);
+
+            const entry = this.relays.get(address);
+            if (entry) {
+                // changed credentials are used from the next connection attempt on.
+                entry.auth = { token, headers };
+                entry.status.policy = policy;
+                this.onDidChangeRelayEmitter.fire({ ...entry.status });
+            } else {
+                this.connect(address, policy, { token, headers });
+            }
+        }
+
+        for (const [address, entry] of [...this.relays.entries()]) {
+            if (!seen.has(address) && entry.status.direction === "outbound") {
+                this.remove(address);
+            }
+        }
+    }
+
+    /**
+     * Accept a tool that connected to our own server. Its requests are handled like those of any other relay.
+     * 
+     * @param name Name the tool identified itself with.
+     */
+    public acceptInbound(ws: WebSocket, name: string, policy?: RelayPolicy) {
+        const address = `${name}#${++this.inboundCounter}`;
+        const entry: RelayEntry = {
+            status: { address, direction: "inbound", state: "open", messagesReceived: 0, messagesSent: 0, retries: 0, policy },
+            ws,
+        };
+
+        this.relays.set(address, entry);
+        this.logger.info(`[relay] tool ${address} connected`);
+
+        ws.on("error", err => {
+            this.logger.error(`[relay] ${address}: ${err}`);
+            entry.status.lastError = `${err}`;
+        });
+
+        ws.on("close", () => {
+            this.logger.info(`[relay] tool ${address} disconnected`);
+            this.remove(address);
+        });
+
+        this.setupMessageHandler(entry, ws);
+        this.onDidChangeRelayEmitter.fire({ ...entry.status });
+    }
+
+    /**
+     * (Re)connect to a relay. Does nothing if the relay is already open or connecting.
+     * 
+     * @param policy Policy for a relay that isn't known yet. Known relays keep their policy.
+     * @param auth Credentials for a relay that isn't known yet. Known relays keep their credentials.
+     */
+    public connect(address: string, policy?: RelayPolicy, auth?: RelayAuth) {
+        address = this.find(address)?.status.address ?? normalizeAddress(address);
+
+        let entry = this.relays.get(address);
+        if (!entry) {
+            entry = { status: { address, direction: "outbound", state: "closed", messagesReceived: 0, messagesSent: 0, retries: 0, policy }, auth };
+            this.relays.set(address, entry);
+        }
+
+        // inbound tools have to reconnect by themselves.
+        if (entry.status.direction === "inbound" || entry.status.state === "open" || entry.status.state === "connecting") {
+            return;
+        }
+
+        clearTimeout(entry.retryTimeout);
+        entry.status.nextRetry = undefined;
+
+        this.logger.info(`[relay] attempting to connect to ${address}`);
+        this.setState(entry, "connecting");
+
+        let ws: WebSocket;
+        try {
+            ws = new WebSocket(address, { headers: getAuthHeaders(entry.auth) });
+        } catch (error) {
+            entry.status.lastError = `${error}`;
+            this.logger.info(`[relay] failed to connect to ${address}: ${error}`);
+            this.scheduleRetry(entry);
+            return;
+        }
+
+        entry.ws = ws;
+        this.setupRelay(entry, ws);
+    }
+
+    /**
+     * Reconnect every relay that isn't open or connecting.
+     */
+    public reconnectAll() {
+        for (const { status } of this.relays.values()) {
+            if (status.direction === "outbound" && (status.state === "failed" || status.state === "closed")) {
+                status.retries = 0;
+                this.connect(status.address);
+            }
+        }
+    }
+
+    /**
+     * Close the connection to a relay, without retrying. Outbound relays stay known and can be reconnected with `connect`.
+     */
+    public disconnect(address: string) {
+        const entry = this.find(address);
+        if (!entry) {
+            return;
+        }
+
+        clearTimeout(entry.retryTimeout);
+        entry.status.nextRetry = undefined;
+
+        const ws = entry.ws;
+        entry.ws = undefined;
+        if (ws) {
+            this.dropQueued(ws);
+            ws.close();
+        }
+
+        if (entry.status.direction === "inbound") {
+            this.relays.delete(entry.status.address);
+        }
+
+        this.setState(entry, "closed");
+    }
+
+    private remove(address: string) {
+        this.disconnect(address);
+        this.relays.delete(address);
+    }
+
+    private setState(entry: RelayEntry, state: RelayState) {
+        entry.status.state = state;
+        this.onDidChangeRelayEmitter.fire({ ...entry.status });
+    }
+
+    private scheduleRetry(entry: RelayEntry) {
+        const delay = Math.min(RETRY_BASE_DELAY * 2 ** entry.status.retries, RETRY_MAX_DELAY);
+        entry.status.retries++;
+        entry.status.nextRetry = new Date(Date.now() + delay);
+
+        this.logger.debug(`[relay] retrying ${entry.status.address} in ${delay}ms`);
+
+        clearTimeout(entry.retryTimeout);
+        entry.retryTimeout = setTimeout(() => this.connect(entry.status.address), delay);
+
+        this.setState(entry, "failed");
+    }
+
+    private setupRelay(entry: RelayEntry, ws: WebSocket) {
+        const { address } = entry.status;
+
+        ws.on("open", () => {
+            this.logger.info(`[relay] connected to ${address}`);
+            entry.status.retries = 0;
+            entry.status.lastError = undefined;
+            this.setState(entry, "open");
+        });
+
+        ws.on("error", err => {
+            this.logger.error(`[relay] ${address}: ${err}`);
+            entry.status.lastError = `${err}`;
+        });
+
+        ws.on("close", () => {
+            // closed through `disconnect`, or replaced by a newer connection.
+            if (entry.ws !== ws) {
+                return;
+            }
+
+            entry.ws = undefined;
+            this.dropQueued(ws);
+            this.logger.info(`[relay] connection to ${address} closed`);
+            this.scheduleRetry(entry);
+        });
+
+        this.setupMessageHandler(entry, ws);
+    }
+
+    private setupMessageHandler(entry: RelayEntry, ws: WebSocket) {
+        const { address } = entry.status;
+
+        ws.on("message", async data => {
+            this.logger.trace(`[relay] received message: ${data}`);
+
+            let message: Message;
+            try {
+                message = JSON.parse(data.toString());
+            } catch {
+                return;
+            }
+
+            if (message.jsonrpc !== "2.0" || typeof message.id !== "number") {
+                return;
+            }
+
+            entry.status.messagesReceived++;
+            this.onDidChangeRelayEmitter.fire({ ...entry.status });
+
+            const { id, jsonrpc, ...original } = message;
+
+            const checked = applyRequestPolicy(original, entry.status.policy);
+            if ("error" in checked) {
+                this.logger.warn(`[relay] ${address}: denied ${original.method}: ${checked.error}`);
+                this.reply(ws, { jsonrpc: "2.0", id, error: checked.error });
+                return;
+            }
+
+            if (this.isGameConnected()) {
+                await this.forward(ws, id, checked.request);
+            } else {
+                this.enqueue(ws, id, checked.request);
+            }
+        });
+    }
+
+    /**
+     * Send a relay's request to the game and reply with the game's response.
+     * If the game disconnected in the meantime, the request is queued instead.
+     */
+    private async forward(ws: WebSocket, id: number, request: RelayRequest) {
+        let response: Message["result"] | null;
+        try {
+            response = await this.send<Message["result"]>(request, this.entryFor(ws)?.status.address ?? "relay");
+        } catch (err) {
+            this.logger.error(`[relay] failed to send message: ${JSON.stringify(request)}: ${err}`);
+            this.reply(ws, { jsonrpc: "2.0", id, error: err instanceof BitburnerError ? err.originalMessage : `${err}` });
+            return;
+        }
+
+        if (response === null) {
+            this.enqueue(ws, id, request);
+            return;
+        }
+
+        this.logger.trace(`[relay] sent message: ${JSON.stringify(request)} => ${JSON.stringify(response)}`);
+
+        const policy = this.entryFor(ws)?.status.policy;
+        this.reply(ws, { jsonrpc: "2.0", id, result: applyResponsePolicy(request.method, response, policy) });
+    }
+
+    private entryFor(ws: WebSocket): RelayEntry | undefined {
+        return [...this.relays.values()].find(entry => entry.ws === ws);
+    }
+
+    private reply(ws: WebSocket, message: Message) {
+        if (ws.readyState !== WebSocket.OPEN) {
+            return;
+        }
+
+        ws.send(JSON.stringify(message));
+
+        const entry = this.entryFor(ws);
+        if (entry) {
+            entry.status.messagesSent++;
+            this.onDidChangeRelayEmitter.fire({ ...entry.status });
+        }
+    }
+
+    private enqueue(ws: WebSocket, id: number, request: RelayRequest) {
+        const { maxQueueSize, messageTTL } = this.queueOptions;
+
+        if (maxQueueSize <= 0) {
+            this.reply(ws, { jsonrpc: "2.0", id, error: "Game is not connected" });
+            return;
+        }
+
+        while (this.relayQueue.length >= maxQueueSize) {
+            const dropped = this.relayQueue.shift()!;
+            this.logger.warn(`[relay] queue full, dropping ${dropped.request.method} (${dropped.id})`);
+            this.reply(dropped.ws, { jsonrpc: "2.0", id: dropped.id, error: "Relay queue is full" });
+        }
+
+        this.relayQueue.push({ request, ws, id, expiresAt: Date.now() + messageTTL });
+        this.onQueueChanged();
+    }
+
+    /**
+     * Remove queued requests of a relay that went away. There's nobody left to reply to.
+     */
+    private dropQueued(ws: WebSocket) {
+        const remaining = this.relayQueue.filter(queued => queued.ws !== ws);
+        if (remaining.length === this.relayQueue.length) {
+            return;
+        }
+
+        this.relayQueue.splice(0, this.relayQueue.length, ...remaining);
+        this.onQueueChanged();
+    }
+
+    private onQueueChanged() {
+        this.onDidChangeQueueEmitter.fire(this.relayQueue.length);
+        this.scheduleSweep();
+    }
+
+    /**
+     * Make sure expired requests get their error reply on time, even if the game never connects.
+     */
+    private scheduleSweep() {
+        clearTimeout(this.sweepTimeout);
+        this.sweepTimeout = undefined;
+
+        if (this.relayQueue.length === 0) {
+            return;
+        }
+
+        const nextExpiry = Math.min(...this.relayQueue.map(queued => queued.expiresAt));
+        this.sweepTimeout = setTimeout(() => this.expireQueued(), Math.max(nextExpiry - Date.now(), 0));
+    }
+
+    private expireQueued() {
+        const now = Date.now();
+        const expired = this.relayQueue.filter(queued => queued.expiresAt <= now);
+        if (expired.length === 0) {
+            this.scheduleSweep();
+            return;
+        }
+
+        for (const queued of expired) {
+            this.logger.warn(`[relay] ${queued.request.method} (${queued.id}) expired in queue`);
+            this.reply(queued.ws, { jsonrpc: "2.0", id: queued.id, error: "Request expired while the game was disconnected" });
+        }
+
+        this.relayQueue.splice(0, this.relayQueue.length, ...this.relayQueue.filter(queued => queued.expiresAt > now));
+        this.onQueueChanged();
+    }
+
+    /**
+     * Send messages that came in while the game was disconnected.
+     */
+    public async flushQueue() {
+        if (!this.isGameConnected() || this.relayQueue.length === 0) {
+            return;
+        }
+
+        const queued = this.relayQueue.splice(0, this.relayQueue.length);
+        this.onQueueChanged();
+
+        const now = Date.now();
+        for (const { request, ws, id, expiresAt } of queued) {
+            if (expiresAt <= now) {
+                this.reply(ws, { jsonrpc: "2.0", id, error: "Request expired while the game was disconnected" });
+                continue;
+            }
+
+            await this.forward(ws, id, request);
+        }
+    }
+
+    [Symbol.dispose]() {
+        clearTimeout(this.sweepTimeout);
+        for (const address of [...this.relays.keys()]) {
+            this.remove(address);
+        }
+        this.onDidChangeRelayEmitter.dispose();
+        this.onDidChangeQueueEmitter.dispose();
+    }
+
+    public dispose() {
+        return this[Symbol.dispose]();
+    }
+}
@@ -0,0 +1,104 @@
+import { FileData, Message, Server } from "./interfaces";
+
+/**
+ * Restricts what a relay is allowed to do ingame.
+ */
+export interface RelayPolicy {
+    /**
+     * Methods the relay may call. `"read-only"` allows every method that doesn't modify files. Defaults to all methods.
+     */
+    allowedMethods?: string[] | "read-only";
+    /**
+     * Servers the relay may access. Defaults to all servers.
+     */
+    allowedServers?: string[];
+    /**
+     * Folder every path the relay sends is placed in, e.g. `/lib/`. Paths in responses are made relative to it again,
+     * and files outside of it are hidden from the relay.
+     */
+    pathPrefix?: string;
+}
+
+export const READ_ONLY_METHODS = [
+    "getFile",
+    "getFileNames",
+    "getFiles",
+    "getFileMetadata",
+    "calculateRam",
+    "getDefinitionFile",
+    "getAllServers",
+];
+
+export type RelayRequest = Omit<Message, "id" | "jsonrpc">;
+
+function normalizePrefix(prefix: string): string {
+    prefix = prefix.replaceAll("\\", "/").replace(/^\/+/, "").replace(/\/*$/, "/");
+    return prefix === "/" ? "" : prefix;
+}
+
+function stripLeadingSlash(path: string): string {
+    return path.replace(/^\/+/, "");
+}
+
+/**
+ * Check a relay's request against its policy and rewrite its paths.
+ *
+ * @returns The request to send to the game, or an error message to reply with if the request isn't allowed.
+ */
+export function applyRequestPolicy(request: RelayRequest, policy?: RelayPolicy): { request: RelayRequest } | { error: string } {
+    if (!policy) {
+        return { request };
+    }
+
+    const method = request.method ?? "";
+    const allowedMethods = policy.allowedMethods === "read-only" ? READ_ONLY_METHODS : policy.allowedMethods;
+    if (allowedMethods && !allowedMethods.includes(method)) {
+        return { error: `Method ${method} is not allowed for this relay` };
+    }
+
+    const params = request.params ? { ...request.params } as Record<string, unknown> : undefined;
+
+    if (policy.allowedServers && typeof params?.server === "string" && !policy.allowedServers.includes(params.server)) {
+        return { error: `Server ${params.server} is not allowed for this relay` };
+    }
+
+    if (policy.pathPrefix && typeof params?.filename === "string") {
+        const filename = stripLeadingSlash(params.filename.replaceAll("\\", "/"));
+        if (filename.split("/").includes("..")) {
+            return { error: "Invalid file path" };
+        }
+
+        params.filename = normalizePrefix(policy.pathPrefix) + filename;
+    }
+
+    return { request: params ? { ...request, params: params as unknown as RelayRequest["params"] } : request };
+}
+
+/**
+ * Rewrite the game's response to a relay's request according to the relay's policy.
+ */
+export function applyResponsePolicy<T>(method: string | undefined, result: T, policy?: RelayPolicy): T {
+    if (!policy) {
+        return result;
+    }
+
+    const prefix = policy.pathPrefix ? normalizePrefix(policy.pathPrefix) : "";
+
+    switch (method) {
+        case "getFileNames":
+            return (result as string[])
+                .map(stripLeadingSlash)
+                .filter(filename => filename.startsWith(prefix))
+                .map(filename => filename.slice(prefix.length)) as T;
+        case "getFiles":
+            return (result as FileData[])
+                .filter(file => stripLeadingSlash(file.filename).startsWith(prefix))
+                .map(file => ({ ...file, filename: stripLeadingSlash(file.filename).slice(prefix.length) })) as T;
+        case "getAllServers":
+            return policy.allowedServers ?
+                (result as Server[]).filter(server => policy.allowedServers!.includes(server.hostname)) as T :
+                result;
+        default:
+            return result;
+    }
+}
@@ -0,0 +1,40 @@
+import assert from "assert";
+import { suite, test } from "mocha";
+import { applyRequestPolicy, applyResponsePolicy } from "./relay-policy";
+
+suite("Relay Policy", () => {
+    test("forwards everything without a policy", () => {
+        const request = { method: "deleteFile", params: { filename: "test.js", server: "n00dles" } };
+        assert.deepStrictEqual(applyRequestPolicy(request), { request });
+    });
+
+    test("denies methods outside of read-only", () => {
+        const result = applyRequestPolicy({ method: "pushFile", params: { filename: "a.js", content: "", server: "home" } }, { allowedMethods: "read-only" });
+        assert("error" in result);
+
+        const allowed = applyRequestPolicy({ method: "getFileNames", params: { server: "home" } }, { allowedMethods: "read-only" });
+        assert("request" in allowed);
+    });
+
+    test("denies servers that aren't allowed", () => {
+        const result = applyRequestPolicy({ method: "getFileNames", params: { server: "n00dles" } }, { allowedServers: ["home"] });
+        assert("error" in result);
+    });
+
+    test("rewrites paths into the prefix", () => {
+        const result = applyRequestPolicy({ method: "pushFile", params: { filename: "/util.js", content: "", server: "home" } }, { pathPrefix: "/lib/" });
+        assert("request" in result);
+        assert.strictEqual((result.request.params as { filename: string }).filename, "lib/util.js");
+
+        const escape = applyRequestPolicy({ method: "pushFile", params: { filename: "../main.js", content: "", server: "home" } }, { pathPrefix: "lib" });
+        assert("error" in escape);
+    });
+
+    test("hides files outside of the prefix in responses", () => {
+        const names = applyResponsePolicy("getFileNames", ["lib/util.js", "main.js", "/lib/sub/a.js"], { pathPrefix: "/lib/" });
+        assert.deepStrictEqual(names, ["util.js", "sub/a.js"]);
+
+        const files = applyResponsePolicy("getFiles", [{ filename: "lib/util.js", content: "x", server: "home" }, { filename: "main.js", content: "y", server: "home" }], { pathPrefix: "lib" });
+        assert.deepStrictEqual(files, [{ filename: "util.js", content: "x", server: "home" }]);
+    });
+});
@@ -0,0 +1,172 @@
+import { Message } from "./interfaces";
+
+/**
+ * Methods whose responses may be cached, and how long they're kept by default, in milliseconds.
+ */
+export const DEFAULT_CACHE_TTL = {
+    getFile: 5000,
+    getFileNames: 5000,
+    getFiles: 2000,
+    getFileMetadata: 5000,
+    calculateRam: 10000,
+    getAllServers: 30000,
+    getDefinitionFile: 60000,
+};
+
+export type CacheableMethod = keyof typeof DEFAULT_CACHE_TTL;
+
+/**
+ * Hits and misses of the response cache, overall and per method.
+ */
+export interface CacheStats {
+    hits: number;
+    misses: number;
+    entries: number;
+    methods: Record<string, { hits: number, misses: number }>;
+}
+
+interface CacheEntry {
+    connectionId: number;
+    method: string;
+    server?: string;
+    filename?: string;
+    result: unknown;
+    expires: number;
+}
+
+type CacheRequest = Omit<Message, "id" | "jsonrpc">;
+
+function stripLeadingSlash(path: string): string {
+    return path.replace(/^\/+/, "");
+}
+
+function getLocation(params: CacheRequest["params"]): { server?: string, filename?: string } {
+    const { server, filename } = (params ?? {}) as { server?: unknown, filename?: unknown };
+    return {
+        server: typeof server === "string" ? server : undefined,
+        filename: typeof filename === "string" ? stripLeadingSlash(filename) : undefined,
+    };
+}
+
+/**
+ * Caches responses to read-only requests per game instance, so repeated lookups of the same data don't all hit the game.
+ *
+ * Entries are invalidated by writes to the file or server they concern, and expire after their method's TTL.
+ */
+export class ResponseCache {
+    private readonly entries = new Map<string, CacheEntry>();
+    private readonly methodStats = new Map<string, { hits: number, misses: number }>();
+
+    constructor(private getTTL: (method: CacheableMethod) => number) {}
+
+    private key(connectionId: number, { method, params }: CacheRequest): string {
+        return `${connectionId}:${method}:${JSON.stringify(params ?? null)}`;
+    }
+
+    private ttlFor(method?: string): number {
+        if (!method || !(method in DEFAULT_CACHE_TTL)) {
+            return 0;
+        }
+
+        return this.getTTL(method as CacheableMethod);
+    }
+
+    /**
+     * Whether responses to this request are cached at all.
+     */
+    public isCacheable(message: CacheRequest): boolean {
+        return this.ttlFor(message.method) > 0;
+    }
+
+    /**
+     * Look up the cached response to a request, counting the lookup as hit or miss.
+     */
+    public get<T>(connectionId: number, message: CacheRequest): { result: T } | undefined {
+        const method = message.method!;
+        let stats = this.methodStats.get(method);
+        if (!stats) {
+            stats = { hits: 0, misses: 0 };
+            this.methodStats.set(method, stats);
+        }
+
+        const key = this.key(connectionId, message);
+        const entry = this.entries.get(key);
+        if (entry && entry.expires <= Date.now()) {
+            this.entries.delete(key);
+        } else if (entry) {
+            stats.hits++;
+            // handed out copies, so callers can't change what's cached.
+            return { result: structuredClone(entry.result) as T };
+        }
+
+        stats.misses++;
+        return undefined;
+    }
+
+    public set(connectionId: number, message: CacheRequest, result: unknown) {
+        const ttl = this.ttlFor(message.method);
+        if (ttl <= 0) {
+            return;
+        }
+
+        this.entries.set(this.key(connectionId, message), {
+            connectionId,
+            method: message.method!,
+            ...getLocation(message.params),
+            result: structuredClone(result),
+            expires: Date.now() + ttl,
+        });
+    }
+
+    /**
+     * Drop every entry a write to a file could have made stale: the file itself, its server's file listings,
+     * and RAM costs on that server, since other scripts may import the file.
+     */
+    public invalidateFile(connectionId: number, server: string, filename: string) {
+        filename = stripLeadingSlash(filename);
+
+        for (const [key, entry] of this.entries) {
+            if (entry.connectionId !== connectionId || entry.server !== server) {
+                continue;
+            }
+
+            if (entry.filename === undefined || entry.filename === filename || entry.method === "calculateRam") {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Drop all entries, or only those of one game instance.
+     */
+    public clear(connectionId?: number) {
+        if (connectionId === undefined) {
+            this.entries.clear();
+            return;
+        }
+
+        for (const [key, entry] of this.entries) {
+            if (entry.connectionId === connectionId) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    public get stats(): CacheStats {
+        const methods: CacheStats["methods"] = {};
+        let hits = 0;
+        let misses = 0;
+
+        for (const [method, stats] of this.methodStats) {
+            methods[method] = { ...stats };
+            hits += stats.hits;
+            misses += stats.misses;
+        }
+
+        return { hits, misses, entries: this.entries.size, methods };
+    }
+
+    public resetStats() {
+        this.methodStats.clear();
+    }
+}
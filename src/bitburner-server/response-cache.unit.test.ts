@@ -0,0 +1,47 @@
+import assert from "assert";
+import { suite, test } from "mocha";
+import { DEFAULT_CACHE_TTL, ResponseCache } from "./response-cache";
+
+suite("Response Cache", () => {
+    const getFile = { method: "getFile", params: { filename: "test.js", server: "home" } };
+    const getFileNames = { method: "getFileNames", params: { server: "home" } };
+
+    test("caches responses per game instance", () => {
+        const cache = new ResponseCache(method => DEFAULT_CACHE_TTL[method]);
+        assert.strictEqual(cache.get(1, getFile), undefined);
+
+        cache.set(1, getFile, "content");
+        assert.deepStrictEqual(cache.get(1, getFile), { result: "content" });
+        assert.strictEqual(cache.get(2, getFile), undefined);
+
+        assert.deepStrictEqual(cache.stats.methods.getFile, { hits: 1, misses: 2 });
+    });
+
+    test("doesn't cache writes or methods with a TTL of 0", () => {
+        const cache = new ResponseCache(method => method === "getFile" ? 0 : DEFAULT_CACHE_TTL[method]);
+        assert(!cache.isCacheable({ method: "pushFile", params: { filename: "test.js", content: "", server: "home" } }));
+        assert(!cache.isCacheable(getFile));
+
+        cache.set(1, getFile, "content");
+        assert.strictEqual(cache.get(1, getFile), undefined);
+    });
+
+    test("writes invalidate the file, its server's listings and RAM costs", () => {
+        const cache = new ResponseCache(method => DEFAULT_CACHE_TTL[method]);
+        const other = { method: "getFile", params: { filename: "other.js", server: "home" } };
+        const ram = { method: "calculateRam", params: { filename: "other.js", server: "home" } };
+        const servers = { method: "getAllServers" };
+
+        for (const message of [getFile, getFileNames, other, ram, servers]) {
+            cache.set(1, message, "result");
+        }
+
+        cache.invalidateFile(1, "home", "/test.js");
+
+        assert.strictEqual(cache.get(1, getFile), undefined);
+        assert.strictEqual(cache.get(1, getFileNames), undefined);
+        assert.strictEqual(cache.get(1, ram), undefined);
+        assert(cache.get(1, other));
+        assert(cache.get(1, servers));
+    });
+});
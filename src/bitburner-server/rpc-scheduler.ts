@@ -0,0 +1,221 @@
+import { BitburnerError, BitburnerErrorCode } from "./errors";
+
+/**
+ * How urgently a request should be sent. Queued requests are sent highest priority first.
+ */
+export enum RequestPriority {
+    /**
+     * Things nobody is actively waiting for, like RAM hints or refreshing views.
+     */
+    Background = 0,
+    Normal = 1,
+    /**
+     * Things the user is waiting on, like opening or saving a file.
+     */
+    User = 2,
+}
+
+/**
+ * What a request reads or writes ingame, so reads aren't answered with data from before an earlier write.
+ */
+export interface RequestResource {
+    server: string;
+    /**
+     * The file the request concerns. Undefined for requests about every file on the server, like listing them.
+     */
+    filename?: string;
+    write: boolean;
+}
+
+function overlaps(a: RequestResource, b: RequestResource): boolean {
+    return a.server === b.server && (a.filename === undefined || b.filename === undefined || a.filename === b.filename);
+}
+
+interface ScheduledRequest {
+    /**
+     * Identical reads share a key, and are only sent once while one of them is queued or in flight.
+     */
+    key?: string;
+    priority: RequestPriority;
+    resource?: RequestResource;
+    /**
+     * Number of callers waiting for this request. Once all of them aborted, a queued request is dropped.
+     */
+    waiters: number;
+    run: () => Promise<unknown>;
+    promise: Promise<unknown>;
+    resolve: (result: unknown) => void;
+    reject: (reason: unknown) => void;
+}
+
+/**
+ * Limits how many requests are in flight to a game instance at once, and coalesces identical reads.
+ */
+export class RpcScheduler {
+    private readonly queue: ScheduledRequest[] = [];
+    /**
+     * Queued and in-flight requests by key.
+     */
+    private readonly pending = new Map<string, ScheduledRequest>();
+    private inFlight = 0;
+    private coalesced = 0;
+
+    /**
+     * @param getMaxInFlight Returns how many requests may be in flight at once. 0 or less means no limit.
+     */
+    constructor(private readonly getMaxInFlight: () => number) {}
+
+    /**
+     * Queue a request.
+     *
+     * @param key Identifies the request for coalescing. Requests without a key are never coalesced.
+     * @param run Sends the request. Only called once the request leaves the queue.
+     * @param signal Rejects the returned promise with `BitburnerErrorCode.Cancelled` when aborted.
+     * @param resource What the request reads or writes. Requests never overtake an earlier write to the same resource,
+     * and reads scheduled after a write are never coalesced with reads from before it.
+     */
+    public schedule<T>(key: string | undefined, priority: RequestPriority, run: () => Promise<T>, signal?: AbortSignal, resource?: RequestResource): Promise<T> {
+        if (signal?.aborted) {
+            return Promise.reject(new BitburnerError(BitburnerErrorCode.Cancelled, "Request cancelled"));
+        }
+
+        if (resource?.write) {
+            // reads still pending might answer with the content from before this write.
+            for (const [pendingKey, request] of this.pending) {
+                if (request.resource && overlaps(request.resource, resource)) {
+                    this.pending.delete(pendingKey);
+                }
+            }
+        }
+
+        if (key !== undefined) {
+            const existing = this.pending.get(key);
+            if (existing) {
+                this.coalesced++;
+                existing.waiters++;
+                // a request waiting on a queued one shouldn't wait longer than it would have on its own.
+                existing.priority = Math.max(existing.priority, priority);
+                return this.wait(existing, signal);
+            }
+        }
+
+        let resolve!: (result: unknown) => void;
+        let reject!: (reason: unknown) => void;
+        const promise = new Promise<unknown>((res, rej) => {
+            resolve = res;
+            reject = rej;
+        });
+
+        const request: ScheduledRequest = { key, priority, resource, waiters: 1, run, promise, resolve, reject };
+        if (key !== undefined) {
+            this.pending.set(key, request);
+        }
+
+        this.queue.push(request);
+        this.drain();
+
+        return this.wait(request, signal);
+    }
+
+    private wait<T>(request: ScheduledRequest, signal?: AbortSignal): Promise<T> {
+        if (!signal) {
+            return request.promise as Promise<T>;
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                reject(new BitburnerError(BitburnerErrorCode.Cancelled, "Request cancelled"));
+                this.release(request);
+            };
+
+            signal.addEventListener("abort", onAbort, { once: true });
+            request.promise
+                .then(result => resolve(result as T), reject)
+                .finally(() => signal.removeEventListener("abort", onAbort));
+        });
+    }
+
+    /**
+     * Called when a caller stopped waiting for a request. Drops the request if it's still queued and nobody else waits for it.
+     * Requests already in flight can't be taken back.
+     */
+    private release(request: ScheduledRequest) {
+        request.waiters--;
+        if (request.waiters > 0) {
+            return;
+        }
+
+        const index = this.queue.indexOf(request);
+        if (index === -1) {
+            return;
+        }
+
+        this.queue.splice(index, 1);
+        if (request.key !== undefined && this.pending.get(request.key) === request) {
+            this.pending.delete(request.key);
+        }
+        request.reject(new BitburnerError(BitburnerErrorCode.Cancelled, "Request cancelled"));
+    }
+
+    private drain() {
+        const max = this.getMaxInFlight();
+
+        while (this.queue.length > 0 && (max <= 0 || this.inFlight < max)) {
+            // first request of the highest priority, so requests of the same priority keep their order.
+            let index = -1;
+            for (let i = 0; i < this.queue.length; i++) {
+                if ((index === -1 || this.queue[i].priority > this.queue[index].priority) && !this.isBlocked(i)) {
+                    index = i;
+                }
+            }
+
+            const [request] = this.queue.splice(index, 1);
+            this.inFlight++;
+
+            new Promise(resolve => resolve(request.run()))
+                .then(request.resolve, request.reject)
+                .finally(() => {
+                    this.inFlight--;
+                    if (request.key !== undefined && this.pending.get(request.key) === request) {
+                        this.pending.delete(request.key);
+                    }
+                    this.drain();
+                });
+        }
+    }
+
+    /**
+     * Whether a queued request has to wait for an earlier queued write to the same resource.
+     */
+    private isBlocked(index: number): boolean {
+        const resource = this.queue[index].resource;
+        if (!resource) {
+            return false;
+        }
+
+        for (let i = 0; i < index; i++) {
+            const earlier = this.queue[i].resource;
+            if (earlier?.write && overlaps(earlier, resource)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Reject every request that hasn't been sent yet.
+     */
+    public clear(reason: unknown) {
+        for (const request of this.queue.splice(0)) {
+            if (request.key !== undefined) {
+                this.pending.delete(request.key);
+            }
+            request.reject(reason);
+        }
+    }
+
+    public get stats() {
+        return { queued: this.queue.length, inFlight: this.inFlight, coalesced: this.coalesced };
+    }
+}
@@ -0,0 +1,113 @@
+import assert from "assert";
+import { suite, test } from "mocha";
+import { RequestPriority, RpcScheduler } from "./rpc-scheduler";
+
+function deferred() {
+    let resolve!: (value: string) => void;
+    const promise = new Promise<string>(r => resolve = r);
+    return { promise, resolve };
+}
+
+suite("RPC Scheduler", () => {
+    test("limits requests in flight", async () => {
+        const scheduler = new RpcScheduler(() => 1);
+        const first = deferred();
+        const started: string[] = [];
+
+        const a = scheduler.schedule(undefined, RequestPriority.Normal, () => { started.push("a"); return first.promise; });
+        const b = scheduler.schedule(undefined, RequestPriority.Normal, async () => { started.push("b"); return "b"; });
+
+        assert.deepStrictEqual(started, ["a"]);
+        assert.deepStrictEqual(scheduler.stats, { queued: 1, inFlight: 1, coalesced: 0 });
+
+        first.resolve("a");
+        assert.deepStrictEqual(await Promise.all([a, b]), ["a", "b"]);
+        assert.deepStrictEqual(started, ["a", "b"]);
+    });
+
+    test("coalesces requests with the same key", async () => {
+        const scheduler = new RpcScheduler(() => 0);
+        let calls = 0;
+        const run = async () => ++calls;
+
+        const results = await Promise.all([
+            scheduler.schedule("getFileNames:home", RequestPriority.Normal, run),
+            scheduler.schedule("getFileNames:home", RequestPriority.Normal, run),
+        ]);
+
+        assert.deepStrictEqual(results, [1, 1]);
+        assert.strictEqual(scheduler.stats.coalesced, 1);
+
+        // coalescing only applies while the first request is pending.
+        assert.strictEqual(await scheduler.schedule("getFileNames:home", RequestPriority.Normal, run), 2);
+    });
+
+    test("sends higher priority requests first", async () => {
+        const scheduler = new RpcScheduler(() => 1);
+        const blocker = deferred();
+        const order: string[] = [];
+        const track = (name: string) => async () => { order.push(name); return name; };
+
+        const requests = [
+            scheduler.schedule(undefined, RequestPriority.Normal, () => blocker.promise),
+            scheduler.schedule(undefined, RequestPriority.Background, track("background")),
+            scheduler.schedule(undefined, RequestPriority.Normal, track("normal")),
+            scheduler.schedule(undefined, RequestPriority.User, track("user")),
+        ];
+
+        blocker.resolve("blocker");
+        await Promise.all(requests);
+
+        assert.deepStrictEqual(order, ["user", "normal", "background"]);
+    });
+
+    test("doesn't answer reads scheduled after a write with data from before it", async () => {
+        const scheduler = new RpcScheduler(() => 1);
+        const file = { server: "home", filename: "a.js" };
+        let content = "old";
+        const blocker = deferred();
+        const read = () => scheduler.schedule("getFile:home:a.js", RequestPriority.Normal, async () => content, undefined, { ...file, write: false });
+
+        scheduler.schedule(undefined, RequestPriority.Normal, () => blocker.promise);
+        const before = read();
+        const push = scheduler.schedule(undefined, RequestPriority.Normal, async () => { content = "new"; return "OK"; }, undefined, { ...file, write: true });
+        const after = read();
+
+        blocker.resolve("done");
+        assert.deepStrictEqual(await Promise.all([before, push, after]), ["old", "OK", "new"]);
+        assert.strictEqual(scheduler.stats.coalesced, 0);
+    });
+
+    test("doesn't let reads overtake an earlier write to the same file", async () => {
+        const scheduler = new RpcScheduler(() => 1);
+        const blocker = deferred();
+        const order: string[] = [];
+        const track = (name: string) => async () => { order.push(name); return name; };
+
+        const requests = [
+            scheduler.schedule(undefined, RequestPriority.Normal, () => blocker.promise),
+            scheduler.schedule(undefined, RequestPriority.Normal, track("push a.js"), undefined, { server: "home", filename: "a.js", write: true }),
+            scheduler.schedule(undefined, RequestPriority.User, track("read a.js"), undefined, { server: "home", filename: "a.js", write: false }),
+            scheduler.schedule(undefined, RequestPriority.User, track("list home"), undefined, { server: "home", write: false }),
+            scheduler.schedule(undefined, RequestPriority.User, track("read b.js"), undefined, { server: "n00dles", filename: "b.js", write: false }),
+        ];
+
+        blocker.resolve("blocker");
+        await Promise.all(requests);
+
+        // unrelated reads still go first.
+        assert.deepStrictEqual(order, ["read b.js", "push a.js", "read a.js", "list home"]);
+    });
+
+    test("rejects queued requests when cleared", async () => {
+        const scheduler = new RpcScheduler(() => 1);
+        const blocker = deferred();
+
+        scheduler.schedule(undefined, RequestPriority.Normal, () => blocker.promise);
+        const queued = scheduler.schedule(undefined, RequestPriority.Normal, async () => "sent");
+
+        scheduler.clear(new Error("disconnected"));
+        await assert.rejects(queued, /disconnected/);
+        blocker.resolve("done");
+    });
+});
@@ -0,0 +1,141 @@
+import { BitburnerError, BitburnerErrorCode } from "./errors";
+import { Event, EventEmitter } from "./events";
+import { Message } from "./interfaces";
+
+/**
+ * Number of requests kept in the log. Older ones are dropped.
+ */
+const MAX_ENTRIES = 1000;
+
+/**
+ * Strings in params longer than this are summarized by their length, so file contents don't end up in the log.
+ */
+const MAX_PARAM_LENGTH = 64;
+
+/**
+ * Origin of requests made by the extension itself, as opposed to a relay or tool.
+ */
+export const EXTENSION_ORIGIN = "extension";
+
+export type TrafficStatus = "pending" | "ok" | "error" | "cached";
+
+/**
+ * A request to the game and what became of it.
+ */
+export interface TrafficEntry {
+    id: number;
+    method: string;
+    /**
+     * Short, human-readable summary of the request's params.
+     */
+    params: string;
+    server?: string;
+    /**
+     * Who made the request: `EXTENSION_ORIGIN`, or the address of the relay or name of the tool.
+     */
+    origin: string;
+    /**
+     * Label of the game instance the request was sent to.
+     */
+    connection: string;
+    startedAt: number;
+    /**
+     * Milliseconds until the response arrived. Undefined while the request is pending.
+     */
+    latency?: number;
+    status: TrafficStatus;
+    errorCode?: BitburnerErrorCode;
+    error?: string;
+}
+
+function summarizeParams(params: Message["params"]): string {
+    return Object.entries(params ?? {})
+        .map(([key, value]) => typeof value === "string" && value.length > MAX_PARAM_LENGTH ?
+            `${key}=<${value.length} chars>` :
+            `${key}=${JSON.stringify(value)}`)
+        .join(", ");
+}
+
+/**
+ * Records requests to the game for inspection, e.g. to debug relays or syncing.
+ */
+export class TrafficLog {
+    private readonly log: TrafficEntry[] = [];
+    private counter = 0;
+
+    private readonly onDidChangeEmitter: EventEmitter<TrafficEntry | undefined>;
+    /**
+     * Fired with an entry when it's added or updated, or with undefined when the log was cleared.
+     */
+    public readonly onDidChange: Event<TrafficEntry | undefined>;
+
+    /**
+     * @param onListenerError Called with errors thrown by `onDidChange` listeners.
+     */
+    constructor(onListenerError?: (error: unknown) => void) {
+        this.onDidChangeEmitter = new EventEmitter(onListenerError);
+        this.onDidChange = this.onDidChangeEmitter.event;
+    }
+
+    /**
+     * Record a request that's about to be sent.
+     */
+    public start(message: Omit<Message, "id" | "jsonrpc">, origin: string, connection: string): TrafficEntry {
+        const { server } = (message.params ?? {}) as { server?: unknown };
+
+        const entry: TrafficEntry = {
+            id: ++this.counter,
+            method: message.method ?? "",
+            params: summarizeParams(message.params),
+            server: typeof server === "string" ? server : undefined,
+            origin,
+            connection,
+            startedAt: Date.now(),
+            status: "pending",
+        };
+
+        this.log.push(entry);
+        if (this.log.length > MAX_ENTRIES) {
+            this.log.shift();
+        }
+
+        this.onDidChangeEmitter.fire(entry);
+        return entry;
+    }
+
+    /**
+     * Record the outcome of a request.
+     *
+     * @param error What the request was rejected with, if it failed.
+     * @param cached Whether the response came from the response cache instead of the game.
+     */
+    public finish(entry: TrafficEntry, error?: unknown, cached = false) {
+        entry.latency = Date.now() - entry.startedAt;
+
+        if (error === undefined) {
+            entry.status = cached ? "cached" : "ok";
+        } else {
+            entry.status = "error";
+            entry.errorCode = error instanceof BitburnerError ? error.code : BitburnerErrorCode.Failed;
+            entry.error = error instanceof BitburnerError ? error.originalMessage : `${error}`;
+        }
+
+        this.onDidChangeEmitter.fire(entry);
+    }
+
+    /**
+     * All recorded requests, oldest first.
+     */
+    public get entries(): TrafficEntry[] {
+        return this.log.map(entry => ({ ...entry }));
+    }
+
+    public clear() {
+        this.log.length = 0;
+        this.onDidChangeEmitter.fire(undefined);
+    }
+
+    public dispose() {
+        this.onDidChangeEmitter.dispose();
+    }
+}
@@ -0,0 +1,159 @@
+import * as vscode from "vscode";
+import { IChildLogger } from "@vscode-logging/logger";
+import { applyEdits, modify, parse } from "jsonc-parser";
+import { minimatch } from "minimatch";
+import { posix } from "path";
+import { BitburnerServer } from "../bitburner-server";
+import { getLocalWorkspaceFolders, normalizePath } from "../fs/util";
+
+const PROJECT_CONFIG_FILES = ["tsconfig.json", "jsconfig.json"];
+
+/**
+ * `workspaceState` key for project config files the user doesn't want to be asked about anymore.
+ */
+const IGNORED_CONFIGS_KEY = "bitburner-companion.definitions.ignoredConfigs";
+
+/**
+ * Whether a `files` or `include` entry of a project config covers `file`.
+ * 
+ * `files` only lists exact paths. `include` takes globs, and like TypeScript, treats entries without a wildcard or file extension in their last segment as folders.
+ */
+function coversFile(key: "files" | "include", entry: string, file: string): boolean {
+    const pattern = normalizePath(posix.normalize(entry)).replace(/\/$/, "");
+    if (key === "files") {
+        return pattern === file;
+    }
+
+    if (pattern === ".") {
+        return true;
+    }
+
+    const lastSegment = posix.basename(pattern);
+    const isFolder = !/[*?]/.test(lastSegment) && !posix.extname(lastSegment);
+    return minimatch(file, isFolder ? `${pattern}/**` : pattern, { dot: true });
+}
+
+/**
+ * Keeps `NetscriptDefinitions.d.ts` in the workspace up to date with the connected game.
+ */
+export class DefinitionsProvider {
+    public readonly logger: IChildLogger;
+    /**
+     * Project configs the user was already asked about this session, so every connect doesn't ask again.
+     */
+    private readonly askedConfigs = new Set<string>();
+
+    constructor(
+        public readonly server: BitburnerServer,
+        private readonly workspaceState: vscode.Memento,
+    ) {
+        this.logger = server.logger.getChildLogger({ label: "definitions" });
+    }
+
+    private get config() {
+        return this.server.config;
+    }
+
+    /**
+     * Called when a game connects. Updates the definitions if `syncDefinitions` is enabled.
+     */
+    public async onGameConnected() {
+        if (!this.config.syncDefinitions) {
+            return;
+        }
+
+        await this.updateDefinitions().catch(e => {
+            this.logger.error(`[definitions] failed to update definitions: ${e}`);
+        });
+    }
+
+    /**
+     * Fetch the definitions from the game and write them to `definitionFile` in every workspace folder where they changed.
+     *
+     * @returns the number of files written, or null if the game isn't connected.
+     */
+    public async updateDefinitions(): Promise<number | null> {
+        const definitions = await this.server.getDefinitionFile().catch(e => {
+            this.logger.error(`[definitions] failed to get definitions: ${e}`);
+            return null;
+        });
+
+        if (!definitions) {
+            return null;
+        }
+
+        const content = new TextEncoder().encode(definitions);
+        const definitionFile = normalizePath(this.config.definitionFile);
+        let written = 0;
+
+        for (const workspaceFolder of getLocalWorkspaceFolders()) {
+            const target = vscode.Uri.joinPath(workspaceFolder.uri, definitionFile);
+
+            const existing = await vscode.workspace.fs.readFile(target).then(content => content, () => null);
+            if (!existing || new TextDecoder().decode(existing) !== definitions) {
+                await vscode.workspace.fs.writeFile(target, content);
+                this.logger.info(`[definitions] updated ${target.toString()}`);
+                written++;
+            }
+        }
+
+        // not awaited, so an unanswered prompt doesn't hold up the update.
+        for (const workspaceFolder of getLocalWorkspaceFolders()) {
+            this.offerProjectConfigUpdate(workspaceFolder, definitionFile).catch(e => {
+                this.logger.error(`[definitions] failed to update project config in ${workspaceFolder.uri.toString()}: ${e}`);
+            });
+        }
+
+        return written;
+    }
+
+    /**
+     * If the workspace folder's tsconfig/jsconfig explicitly lists its files and `definitionFile` isn't among them, offer to add it.
+     */
+    private async offerProjectConfigUpdate(workspaceFolder: vscode.WorkspaceFolder, definitionFile: string) {
+        for (const configName of PROJECT_CONFIG_FILES) {
+            const configUri = vscode.Uri.joinPath(workspaceFolder.uri, configName);
+            const raw = await vscode.workspace.fs.readFile(configUri).then(content => new TextDecoder().decode(content), () => null);
+            if (raw === null) {
+                continue;
+            }
+
+            const ignored = this.workspaceState.get<string[]>(IGNORED_CONFIGS_KEY, []);
+            if (ignored.includes(configUri.toString()) || this.askedConfigs.has(configUri.toString())) {
+                return;
+            }
+
+            const projectConfig = parse(raw) as { include?: string[], files?: string[] } | undefined;
+            // without `include` and `files`, TypeScript picks up every file in the project anyway.
+            const key = projectConfig?.include ? "include" : projectConfig?.files ? "files" : null;
+            if (!key) {
+                return;
+            }
+
+            const entries = projectConfig![key]!;
+            if (entries.some(entry => coversFile(key, entry, definitionFile))) {
+                return;
+            }
+
+            // also covers "Not Now", and prompts that are still open.
+            this.askedConfigs.add(configUri.toString());
+
+            const ADD = `Add to ${configName}`;
+            const NEVER = "Don't Ask Again";
+            const choice = await vscode.window.showInformationMessage(
+                `${definitionFile} is not included in ${configName}, so NS functions won't be typed. Add it?`,
+                ADD, "Not Now", NEVER,
+            );
+
+            if (choice === ADD) {
+                const edits = modify(raw, [key, entries.length], definitionFile, { isArrayInsertion: true, formattingOptions: { insertSpaces: true, tabSize: 4 } });
+                await vscode.workspace.fs.writeFile(configUri, new TextEncoder().encode(applyEdits(raw, edits)));
+                this.logger.info(`[definitions] added ${definitionFile} to ${configUri.toString()}`);
+            } else if (choice === NEVER) {
+                await this.workspaceState.update(IGNORED_CONFIGS_KEY, [...ignored, configUri.toString()]);
+            }
+
+            return;
+        }
+    }
+}
@@ -3,11 +3,21 @@
 import * as vscode from 'vscode';
 import { getExtensionLogger } from "@vscode-logging/logger";
 import { BitburnerConfig, BitburnerServer, DEFAULT_CONFIG } from './bitburner-server';
+import { BitburnerError, BitburnerErrorCode } from './bitburner-server/errors';
 import { BitburnerFilesystemProvider } from './fs/filesystem-provider';
-import { BitburnerRemoteFsTreeDataProvider } from './fs/tree-data';
+import { BitburnerRemoteFsTreeDataProvider, FileData } from './fs/tree-data';
+import { BitburnerRemoteFsDragAndDropController } from './fs/tree-drag-and-drop';
+import { RemoteFileActions } from './fs/file-actions';
 import { parseUri } from './fs/util';
 import { RamDisplayProvider } from './ram-display';
 import { BitburnerStatusBarItem } from './status-bar';
+import { WorkspaceSyncProvider } from './sync';
+import { DefinitionsProvider } from './definitions';
+import { RelayTreeDataProvider } from './relays/tree-data';
+import { RelayStatus } from './bitburner-server/relay-manager';
+import { SaveBackupProvider } from './backups';
+import { BitburnerCompanionApi, createApi } from './api';
+import { TrafficInspector } from './traffic';
 
 function getServerSettings(settings: vscode.WorkspaceConfiguration): BitburnerConfig {
 	const config = {} as Partial<BitburnerConfig>;
@@ -21,7 +31,7 @@ function getServerSettings(settings: vscode.WorkspaceConfiguration): BitburnerCo
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): BitburnerCompanionApi {
 	const logger = getExtensionLogger({
 		extName: "bitburner-companion",
 		level: "debug",
@@ -34,30 +44,285 @@ export function activate(context: vscode.ExtensionContext) {
 	let settings = getServerSettings(vscode.workspace.getConfiguration("bitburner-companion"));
 	const server = new BitburnerServer(settings, logger);
 	const statusItem = new BitburnerStatusBarItem(settings);
+	const syncProvider = new WorkspaceSyncProvider(server);
+	const definitionsProvider = new DefinitionsProvider(server, context.workspaceState);
+	const backupProvider = new SaveBackupProvider(server, context.globalStorageUri);
 
-	server.onGameConnected(() => {
-		statusItem.setConnectionStatus("connected");
+	const updateGameStatus = () => {
+		statusItem.setServerState(server.state);
+		statusItem.setActiveGame(server.activeConnection?.label, server.connections.length);
+	};
+
+	const onGameStatusChange = [
+		server.onGameConnected(updateGameStatus),
+		server.onGameDisconnected(updateGameStatus),
+		server.onDidChangeActiveConnection(updateGameStatus),
+		server.onDidChangeState(updateGameStatus),
+	];
+	updateGameStatus();
+
+	const onServerError = server.onDidChangeState(async state => {
+		if (state !== "error") {
+			return;
+		}
+
+		const error = server.lastError as NodeJS.ErrnoException | undefined;
+		const CHOOSE_PORT = "Choose Another Port";
+		const RETRY = "Retry";
+
+		if (error?.code !== "EADDRINUSE") {
+			const action = await vscode.window.showErrorMessage(`Bitburner server failed to start: ${error?.message ?? error}`, RETRY);
+			if (action === RETRY) {
+				server.start();
+			}
+			return;
+		}
+
+		const action = await vscode.window.showErrorMessage(
+			`Port ${settings.port} is already in use, e.g. by another VS Code window or bitburner-filesync.`,
+			CHOOSE_PORT,
+			RETRY,
+		);
+
+		if (action === RETRY) {
+			server.start();
+		} else if (action === CHOOSE_PORT) {
+			const input = await vscode.window.showInputBox({
+				prompt: "Port to start the server on. Remember to change it under \"Remote API\" ingame, too.",
+				value: `${settings.port + 1}`,
+				validateInput: value => /^\d+$/.test(value) && parseInt(value) > 0 && parseInt(value) < 65536 ? null : "Enter a port between 1 and 65535",
+			});
+
+			if (!input) {
+				return;
+			}
+
+			// update wherever the port is set now, so the new one actually takes effect.
+			const configuration = vscode.workspace.getConfiguration("bitburner-companion");
+			const target = configuration.inspect("port")?.workspaceValue !== undefined ?
+				vscode.ConfigurationTarget.Workspace :
+				vscode.ConfigurationTarget.Global;
+			await configuration.update("port", parseInt(input), target);
+		}
 	});
-	server.onGameDisconnected(() => {
-		statusItem.setConnectionStatus("disconnected");
+
+	// only now that state and error listeners are attached, so startup errors are shown, too.
+	server.start();
+
+	const onGameConnected = server.onGameConnected(() => {
+		syncProvider.onGameConnected();
+		definitionsProvider.onGameConnected();
+		backupProvider.onGameConnected();
 	});
 
-	const restartServer = vscode.commands.registerCommand("bitburner-companion.restart-server", () => {
-		server.dispose();
-		server.start();
+	const restartServer = vscode.commands.registerCommand("bitburner-companion.restart-server", async () => {
+		await server.restart();
 	});
 
-	const stopServer = vscode.commands.registerCommand("bitburner-companion.stop-server", () => {
-		server.dispose();
-		server.start();
+	const stopServer = vscode.commands.registerCommand("bitburner-companion.stop-server", async () => {
+		if (server.state === "stopped") {
+			vscode.window.showInformationMessage("Bitburner server is not running.");
+			return;
+		}
+
+		await server.stop();
 	});
 
 	const startServer = vscode.commands.registerCommand("bitburner-companion.start-server", () => {
+		if (server.state === "listening" || server.state === "game-connected") {
+			vscode.window.showInformationMessage(`Bitburner server is already running on port ${settings.port}.`);
+			return;
+		}
+
 		server.start();
 	});
 
+	const selectGame = vscode.commands.registerCommand("bitburner-companion.select-game", async () => {
+		const connections = server.connections;
+		if (connections.length === 0) {
+			vscode.window.showInformationMessage(`No game connected. Connect at localhost:${settings.port}.`);
+			return;
+		}
+
+		const activeId = server.activeConnection?.id;
+		const picked = await vscode.window.showQuickPick(connections.map(connection => ({
+			label: connection.label,
+			description: connection.id === activeId ? "active" : undefined,
+			detail: `Connected at ${connection.connectedAt.toLocaleTimeString()}`,
+			id: connection.id,
+		})), { placeHolder: "Game instance to send messages to" });
+
+		if (!picked) {
+			return;
+		}
+
+		if (!server.setActiveConnection(picked.id)) {
+			vscode.window.showErrorMessage(`${picked.label} is no longer connected.`);
+		}
+	});
+
 	const reconnectRelays = vscode.commands.registerCommand("bitburner-companion.reconnect-relays", () => {
 		server.syncRelayConnections();
+		server.relays.reconnectAll();
+	});
+
+	const connectRelay = vscode.commands.registerCommand("bitburner-companion.connect-relay", (relay: RelayStatus) => {
+		server.relays.connect(relay.address);
+	});
+
+	const disconnectRelay = vscode.commands.registerCommand("bitburner-companion.disconnect-relay", (relay: RelayStatus) => {
+		server.relays.disconnect(relay.address);
+	});
+
+	const syncWorkspace = vscode.commands.registerCommand("bitburner-companion.sync-workspace", async () => {
+		const { pushed, failed } = await syncProvider.fullSync();
+		if (failed > 0) {
+			vscode.window.showWarningMessage(`Pushed ${pushed} files to the game, ${failed} failed.`);
+		} else {
+			vscode.window.showInformationMessage(`Pushed ${pushed} files to the game.`);
+		}
+	});
+
+	const pullFromGame = vscode.commands.registerCommand("bitburner-companion.pull-from-game", async (element?: { server: string, filename?: string }) => {
+		let servers: string[];
+		if (element) {
+			servers = [element.server];
+		} else {
+			const allServers = await server.getAllServers();
+			if (!allServers) {
+				vscode.window.showErrorMessage("Game is not connected.");
+				return;
+			}
+
+			const hostnames = settings.useServerFolders ? allServers.map(s => s.hostname) : ["home"];
+			const picked = await vscode.window.showQuickPick(["All servers", ...hostnames], { placeHolder: "Server to pull files from" });
+			if (!picked) {
+				return;
+			}
+
+			servers = picked === "All servers" ? hostnames : [picked];
+		}
+
+		const result = await syncProvider.pullFromGame(servers, element?.filename);
+		if (result.failed.length === 0) {
+			vscode.window.showInformationMessage(`Pulled ${result.written} files from the game, ${result.skipped} skipped.`);
+			return;
+		}
+
+		if (result.failed.length === servers.length && result.failed.every(({ filename }) => !filename) && !server.isConnected) {
+			vscode.window.showErrorMessage("Game is not connected.");
+			return;
+		}
+
+		const failed = result.failed.map(({ server, filename, reason }) => `${filename ? `${server}:/${filename}` : server} (${reason})`).join(", ");
+		vscode.window.showWarningMessage(`Pulled ${result.written} files from the game, ${result.skipped} skipped. Could not pull ${failed}.`);
+	});
+
+	const updateDefinitions = vscode.commands.registerCommand("bitburner-companion.update-definitions", async () => {
+		const written = await definitionsProvider.updateDefinitions();
+		if (written === null) {
+			vscode.window.showErrorMessage("Game is not connected.");
+		} else if (written === 0) {
+			vscode.window.showInformationMessage("Netscript definitions are already up to date.");
+		} else {
+			vscode.window.showInformationMessage(`Updated Netscript definitions in ${written} workspace folder(s).`);
+		}
+	});
+
+	const backupSave = vscode.commands.registerCommand("bitburner-companion.backup-save", async () => {
+		let backup: vscode.Uri | null;
+		try {
+			backup = await backupProvider.backup();
+		} catch (e) {
+			if (!(e instanceof BitburnerError)) {
+				throw e;
+			}
+
+			vscode.window.showErrorMessage(e.code === BitburnerErrorCode.UnknownMessage ?
+				"This game version doesn't support getSaveFile, so saves can't be backed up." :
+				`Could not back up the save: ${e.originalMessage}`);
+			return;
+		}
+
+		if (!backup) {
+			vscode.window.showErrorMessage("Game is not connected.");
+			return;
+		}
+
+		vscode.window.showInformationMessage(`Save backed up to ${backup.fsPath}.`);
+	});
+
+	const manageBackups = vscode.commands.registerCommand("bitburner-companion.manage-backups", async () => {
+		const backups = await backupProvider.listBackups();
+		if (backups.length === 0) {
+			vscode.window.showInformationMessage("No save backups yet.");
+			return;
+		}
+
+		const picked = await vscode.window.showQuickPick(backups.map(backup => ({
+			label: backup.createdAt.toLocaleString(),
+			description: `${(backup.size / 1024).toFixed(1)} KiB`,
+			detail: backup.name,
+			backup,
+		})), { placeHolder: "Save backup" });
+
+		if (!picked) {
+			return;
+		}
+
+		const EXPORT = "Export...";
+		const REVEAL = "Reveal in File Explorer";
+		const DELETE = "Delete";
+		const action = await vscode.window.showQuickPick([EXPORT, REVEAL, DELETE], { placeHolder: picked.backup.name });
+
+		switch (action) {
+			case EXPORT: {
+				const target = await backupProvider.exportBackup(picked.backup);
+				if (target) {
+					vscode.window.showInformationMessage(`Exported backup to ${target.fsPath}.`);
+				}
+				break;
+			}
+			case REVEAL:
+				vscode.commands.executeCommand("revealFileInOS", picked.backup.uri);
+				break;
+			case DELETE:
+				await vscode.workspace.fs.delete(picked.backup.uri);
+				break;
+		}
+	});
+
+	const trafficInspector = new TrafficInspector(server);
+	const showTraffic = vscode.commands.registerCommand("bitburner-companion.show-rpc-traffic", () => {
+		trafficInspector.show();
+	});
+	const exportTraffic = vscode.commands.registerCommand("bitburner-companion.export-rpc-traffic", () => {
+		trafficInspector.export();
+	});
+
+	const showCacheStats = vscode.commands.registerCommand("bitburner-companion.show-cache-stats", async () => {
+		if (!settings.responseCache) {
+			vscode.window.showInformationMessage("The response cache is disabled. Enable it with the \"Response Cache\" setting.");
+			return;
+		}
+
+		const stats = server.cacheStats;
+		const total = stats.hits + stats.misses;
+		const hitRate = total > 0 ? Math.round(stats.hits / total * 100) : 0;
+
+		for (const [method, { hits, misses }] of Object.entries(stats.methods)) {
+			logger.info(`[cache] ${method}: ${hits} hits, ${misses} misses`);
+		}
+
+		const CLEAR = "Clear Cache";
+		const action = await vscode.window.showInformationMessage(
+			`Response cache: ${stats.hits} hits, ${stats.misses} misses (${hitRate}% hit rate), ${stats.entries} entries cached. Per-method stats are in the output log.`,
+			CLEAR,
+		);
+
+		if (action === CLEAR) {
+			server.clearCache();
+		}
 	});
 
 	const onConfigChange = vscode.workspace.onDidChangeConfiguration(e => {
@@ -74,11 +339,13 @@ export function activate(context: vscode.ExtensionContext) {
 		settings = getServerSettings(vscode.workspace.getConfiguration("bitburner-companion"));
 		server.updateConfig(settings);
 		statusItem.updateConfig(settings);
+		backupProvider.updateConfig();
 	});
 	
 	const filesystem = new BitburnerFilesystemProvider(server);
+	const remoteFsTreeData = new BitburnerRemoteFsTreeDataProvider(server, filesystem, context.workspaceState);
 
-	const filesystemProvider = vscode.workspace.registerFileSystemProvider("bitburner", filesystem);
+	const filesystemProvider = vscode.workspace.registerFileSystemProvider("bitburner", filesystem, { isCaseSensitive: true });
 	const openFile = vscode.commands.registerCommand("bitburner-companion.open-remote-file", async () => {
 		const hostname = await vscode.window.showInputBox({
 			placeHolder: "Hostname",
@@ -98,9 +365,92 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
-	
+	const openServerFolder = vscode.commands.registerCommand("bitburner-companion.open-server-folder", async (element?: { server: string }) => {
+		let hostname = element?.server;
+		if (!hostname) {
+			const servers = await server.getAllServers();
+			hostname = servers ?
+				await vscode.window.showQuickPick(servers.map(s => s.hostname), { placeHolder: "Server to open as workspace folder" }) :
+				await vscode.window.showInputBox({ placeHolder: "Hostname", value: "home" });
+		}
+
+		if (!hostname) {
+			return;
+		}
+
+		const uri = vscode.Uri.from({ scheme: "bitburner", authority: hostname, path: "/" });
+		const folders = vscode.workspace.workspaceFolders ?? [];
+		if (folders.some(folder => folder.uri.toString() === uri.toString())) {
+			vscode.window.showInformationMessage(`${hostname} is already open as a workspace folder.`);
+			return;
+		}
+
+		if (!vscode.workspace.updateWorkspaceFolders(folders.length, 0, { uri, name: `${hostname} (Bitburner)` })) {
+			vscode.window.showErrorMessage(`Could not open ${hostname} as a workspace folder.`);
+		}
+	});
+
 	const remoteFs = vscode.window.createTreeView("bitburner-companion.remote-fs", {
-		treeDataProvider: new BitburnerRemoteFsTreeDataProvider(server, filesystem),
+		treeDataProvider: remoteFsTreeData,
+		dragAndDropController: new BitburnerRemoteFsDragAndDropController(server, remoteFsTreeData),
+		canSelectMany: true,
+	});
+	const onRemoteFsCollapse = remoteFs.onDidCollapseElement(e => remoteFsTreeData.onDidCollapse(e.element));
+	remoteFs.description = remoteFsTreeData.filterDescription;
+	const onRemoteFsFilterChange = remoteFsTreeData.onDidChangeFilter(() => {
+		remoteFs.description = remoteFsTreeData.filterDescription;
+	});
+
+	const refreshRemoteFs = vscode.commands.registerCommand("bitburner-companion.refresh-remote-fs", () => {
+		remoteFsTreeData.refresh();
+	});
+
+	const serverFilterCommands = [
+		vscode.commands.registerCommand("bitburner-companion.filter-rooted-servers", () => {
+			remoteFsTreeData.updateFilter({ rootedOnly: !remoteFsTreeData.filter.rootedOnly });
+		}),
+		vscode.commands.registerCommand("bitburner-companion.filter-purchased-servers", () => {
+			remoteFsTreeData.updateFilter({ purchasedOnly: !remoteFsTreeData.filter.purchasedOnly });
+		}),
+		vscode.commands.registerCommand("bitburner-companion.filter-empty-servers", () => {
+			remoteFsTreeData.updateFilter({ hideEmpty: !remoteFsTreeData.filter.hideEmpty });
+		}),
+		vscode.commands.registerCommand("bitburner-companion.group-servers", () => {
+			remoteFsTreeData.updateFilter({ grouped: !remoteFsTreeData.filter.grouped });
+		}),
+		vscode.commands.registerCommand("bitburner-companion.filter-servers-by-name", async () => {
+			const name = await vscode.window.showInputBox({
+				title: "Filter Servers by Name",
+				placeHolder: "Part of a hostname, empty to show all servers",
+				value: remoteFsTreeData.filter.name,
+			});
+
+			if (name !== undefined) {
+				remoteFsTreeData.updateFilter({ name: name.trim() });
+			}
+		}),
+		vscode.commands.registerCommand("bitburner-companion.clear-server-filters", () => {
+			remoteFsTreeData.updateFilter({ rootedOnly: false, purchasedOnly: false, hideEmpty: false, name: "" });
+		}),
+	];
+
+	const remoteFileActions = new RemoteFileActions(server, remoteFsTreeData);
+	const remoteFileCommands = [
+		vscode.commands.registerCommand("bitburner-companion.new-remote-file", (element: FileData) => remoteFileActions.newFile(element)),
+		vscode.commands.registerCommand("bitburner-companion.rename-remote-file", (element: FileData) => remoteFileActions.rename(element)),
+		vscode.commands.registerCommand("bitburner-companion.delete-remote-file", (element: FileData, selected?: FileData[]) => remoteFileActions.delete(element, selected)),
+		vscode.commands.registerCommand("bitburner-companion.duplicate-remote-file", (element: FileData) => remoteFileActions.duplicate(element)),
+		vscode.commands.registerCommand("bitburner-companion.download-remote-file", (element: FileData, selected?: FileData[]) => remoteFileActions.download(element, selected)),
+		vscode.commands.registerCommand("bitburner-companion.copy-remote-uri", (element: FileData) => remoteFileActions.copyUri(element)),
+		vscode.commands.registerCommand("bitburner-companion.show-remote-ram-cost", (element: FileData) => remoteFileActions.showRamCost(element)),
+	];
+
+	const relayTreeData = new RelayTreeDataProvider(server);
+	const relayView = vscode.window.createTreeView("bitburner-companion.relays", {
+		treeDataProvider: relayTreeData,
+	});
+	const onRelayQueueChange = server.relays.onDidChangeQueue(depth => {
+		relayView.message = depth > 0 ? `${depth} relay request(s) queued until the game connects.` : undefined;
 	});
 
 	const ramDisplayProvider = new RamDisplayProvider(server, statusItem);
@@ -113,12 +463,42 @@ export function activate(context: vscode.ExtensionContext) {
 		onConfigChange,
 		server,
 		openFile,
+		openServerFolder,
+		filesystem,
 		filesystemProvider,
 		remoteFs,
+		remoteFsTreeData,
+		onRemoteFsCollapse,
+		refreshRemoteFs,
+		...remoteFileCommands,
+		onRemoteFsFilterChange,
+		...serverFilterCommands,
 		reconnectRelays,
+		connectRelay,
+		disconnectRelay,
+		relayTreeData,
+		relayView,
+		onRelayQueueChange,
 		statusItem,
 		ramDisplayProvider,
+		syncProvider,
+		syncWorkspace,
+		pullFromGame,
+		updateDefinitions,
+		selectGame,
+		backupProvider,
+		backupSave,
+		manageBackups,
+		showCacheStats,
+		trafficInspector,
+		showTraffic,
+		exportTraffic,
+		...onGameStatusChange,
+		onServerError,
+		onGameConnected,
 	);
+
+	return createApi(server);
 }
 
 // This method is called when your extension is deactivated
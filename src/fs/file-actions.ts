@@ -0,0 +1,275 @@
+import * as vscode from "vscode";
+import { posix } from "path";
+import { IChildLogger } from "@vscode-logging/logger";
+import { BitburnerServer } from "../bitburner-server";
+import { BitburnerError } from "../bitburner-server/errors";
+import { RequestPriority } from "../bitburner-server/rpc-scheduler";
+import { BitburnerRemoteFsTreeDataProvider, FileData } from "./tree-data";
+import { ALLOWED_EXTENSIONS, getLocalWorkspaceFolders, isAllowedFilename, normalizePath, toUri } from "./util";
+
+/**
+ * Characters the game doesn't allow in file paths.
+ */
+const INVALID_CHARACTERS = /[\s*?[\]!\\~|#"']/;
+
+function toPath(element: FileData): string {
+    return normalizePath(element.filename ?? "").replace(/\/+$/, "");
+}
+
+function isFile(element: FileData): boolean {
+    return /\.[a-zA-Z]+$/.test(toPath(element));
+}
+
+/**
+ * @returns The folder new files for `element` go into: the element itself for servers and folders, or the folder a file is in.
+ */
+function getFolder(element: FileData): string {
+    const path = toPath(element);
+    if (!isFile(element)) {
+        return path;
+    }
+
+    const parent = posix.dirname(path);
+    return parent === "." ? "" : parent;
+}
+
+function validateFilePath(path: string): string | undefined {
+    if (!path.trim()) {
+        return "Enter a file name.";
+    }
+
+    if (INVALID_CHARACTERS.test(path)) {
+        return "File names can't contain spaces or any of * ? [ ] ! \\ ~ | # \" '.";
+    }
+
+    if (!isAllowedFilename(path)) {
+        return `Bitburner only allows files ending in ${ALLOWED_EXTENSIONS.join(", ")}.`;
+    }
+}
+
+function validateFolderPath(path: string): string | undefined {
+    if (!path.trim()) {
+        return "Enter a folder name.";
+    }
+
+    if (INVALID_CHARACTERS.test(path)) {
+        return "Folder names can't contain spaces or any of * ? [ ] ! \\ ~ | # \" '.";
+    }
+
+    if (/\.[a-zA-Z]+$/.test(path)) {
+        return "Folder names can't end in a file extension.";
+    }
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+    return vscode.workspace.fs.stat(uri).then(() => true, e => {
+        if (e instanceof vscode.FileSystemError && e.code === "FileNotFound") {
+            return false;
+        }
+
+        throw e;
+    });
+}
+
+/**
+ * Context menu actions for files and folders in the Game Files view.
+ *
+ * Everything but RAM costs goes through the `bitburner` filesystem, so open editors and the tree stay up to date.
+ */
+export class RemoteFileActions {
+    private readonly logger: IChildLogger;
+
+    constructor(
+        private readonly server: BitburnerServer,
+        private readonly treeData: BitburnerRemoteFsTreeDataProvider,
+    ) {
+        this.logger = server.logger.getChildLogger({ label: "remote-file-actions" });
+    }
+
+    public async newFile(element: FileData) {
+        const folder = getFolder(element);
+        const filename = await vscode.window.showInputBox({
+            title: `New File on ${element.server}`,
+            prompt: `In /${folder}`,
+            placeHolder: "script.js",
+            validateInput: validateFilePath,
+        });
+
+        if (!filename) {
+            return;
+        }
+
+        const uri = toUri(element.server, posix.join(folder, filename));
+        await this.run(`create ${filename}`, async () => {
+            if (await exists(uri)) {
+                throw vscode.FileSystemError.FileExists(uri);
+            }
+
+            await vscode.workspace.fs.writeFile(uri, new Uint8Array());
+            await vscode.window.showTextDocument(uri);
+        });
+    }
+
+    public async rename(element: FileData) {
+        const path = toPath(element);
+        const file = isFile(element);
+        const nameStart = path.lastIndexOf("/") + 1;
+
+        const newPath = await vscode.window.showInputBox({
+            title: `Rename ${path} on ${element.server}`,
+            value: path,
+            // select just the name, like the Explorer does.
+            valueSelection: [nameStart, file ? path.lastIndexOf(".") : path.length],
+            validateInput: value => file ? validateFilePath(value) : validateFolderPath(value),
+        });
+
+        if (!newPath || normalizePath(newPath) === path) {
+            return;
+        }
+
+        await this.run(`rename ${path}`, () => Promise.resolve(vscode.workspace.fs.rename(
+            toUri(element.server, path),
+            toUri(element.server, newPath),
+            { overwrite: false },
+        )));
+    }
+
+    /**
+     * Delete the element, or every selected element if it's part of a selection, after asking for confirmation.
+     */
+    public async delete(element: FileData, selected?: readonly FileData[]) {
+        const picked = selected?.includes(element) ? selected.filter(item => item.filename) : [element];
+        // deleting a folder takes everything in it along, so selected items inside it would fail with FileNotFound.
+        const elements = picked.filter(item => !picked.some(folder => folder !== item && folder.server === item.server &&
+            !isFile(folder) && toPath(item).startsWith(`${toPath(folder)}/`)));
+        if (elements.length === 0) {
+            return;
+        }
+
+        const message = elements.length === 1 ?
+            `Are you sure you want to delete ${toPath(elements[0])} from ${elements[0].server}${isFile(elements[0]) ? "" : " and all files in it"}?` :
+            `Are you sure you want to delete ${elements.length} files and folders?`;
+
+        const confirmed = await vscode.window.showWarningMessage(message, { modal: true, detail: "This can't be undone." }, "Delete");
+        if (confirmed !== "Delete") {
+            return;
+        }
+
+        for (const item of elements) {
+            await this.run(`delete ${toPath(item)}`, () => Promise.resolve(vscode.workspace.fs.delete(
+                toUri(item.server, toPath(item)),
+                { recursive: true },
+            )));
+        }
+    }
+
+    /**
+     * Copy a file or folder next to itself, as `<name>-copy`.
+     */
+    public async duplicate(element: FileData) {
+        const path = toPath(element);
+        const extension = isFile(element) ? posix.extname(path) : "";
+        const stem = path.slice(0, path.length - extension.length);
+
+        await this.run(`duplicate ${path}`, async () => {
+            let target = toUri(element.server, `${stem}-copy${extension}`);
+            for (let i = 2; await exists(target); i++) {
+                target = toUri(element.server, `${stem}-copy-${i}${extension}`);
+            }
+
+            await vscode.workspace.fs.copy(toUri(element.server, path), target, { overwrite: false });
+        });
+    }
+
+    /**
+     * Copy the element, or every selected element if it's part of a selection, into a folder picked by the user.
+     */
+    public async download(element: FileData, selected?: readonly FileData[]) {
+        const elements = selected?.includes(element) ? selected : [element];
+
+        const [folder] = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            defaultUri: getLocalWorkspaceFolders()[0]?.uri,
+            openLabel: "Download Here",
+        }) ?? [];
+
+        if (!folder) {
+            return;
+        }
+
+        const targets = elements.map(item => ({
+            source: toUri(item.server, toPath(item)),
+            // servers are downloaded into a folder named after them.
+            target: vscode.Uri.joinPath(folder, toPath(item) ? posix.basename(toPath(item)) : item.server),
+        }));
+
+        let overwrite = false;
+        const existing = (await Promise.all(targets.map(({ target }) => exists(target).catch(() => false)))).filter(Boolean).length;
+        if (existing > 0) {
+            const answer = await vscode.window.showWarningMessage(
+                `${existing} of the downloaded files or folders already exist in ${folder.fsPath}. Overwrite them?`,
+                { modal: true },
+                "Overwrite",
+            );
+
+            if (answer !== "Overwrite") {
+                return;
+            }
+            overwrite = true;
+        }
+
+        let downloaded = 0;
+        for (const { source, target } of targets) {
+            await this.run(`download ${source.toString()}`, async () => {
+                await vscode.workspace.fs.copy(source, target, { overwrite });
+                downloaded++;
+            });
+        }
+
+        if (downloaded > 0) {
+            vscode.window.showInformationMessage(`Downloaded ${downloaded} file(s) and folder(s) to ${folder.fsPath}.`);
+        }
+    }
+
+    public async copyUri(element: FileData) {
+        const uri = toUri(element.server, toPath(element)).toString();
+        await vscode.env.clipboard.writeText(uri);
+        vscode.window.setStatusBarMessage(`Copied ${uri}`, 3000);
+    }
+
+    /**
+     * Ask the game for a script's RAM cost and show it next to the script, until the script changes.
+     */
+    public async showRamCost(element: FileData) {
+        const path = toPath(element);
+        this.treeData.setDescription(element, "calculating RAM…");
+
+        try {
+            const cost = await this.server.calculateRam(path, element.server, { priority: RequestPriority.User });
+            if (cost === null) {
+                this.treeData.setDescription(element, undefined);
+                vscode.window.showErrorMessage("Game is not connected.");
+                return;
+            }
+
+            this.treeData.setDescription(element, `${cost} GB`);
+        } catch (e) {
+            this.treeData.setDescription(element, "RAM unknown");
+            if (!(e instanceof BitburnerError)) {
+                throw e;
+            }
+
+            vscode.window.showWarningMessage(`Could not calculate the RAM cost of ${path}: ${e.originalMessage}`);
+        }
+    }
+
+    private async run(action: string, task: () => Promise<void>) {
+        try {
+            await task();
+        } catch (e) {
+            this.logger.error(`[actions] failed to ${action}: ${e}`);
+            vscode.window.showErrorMessage(`Failed to ${action}: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+}
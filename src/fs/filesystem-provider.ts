@@ -1,13 +1,60 @@
-import { Disposable, Event, FileChangeEvent, FileStat, FileSystemError, FileSystemProvider, FileType, Uri } from "vscode";
-import { parseDirectoryFromFileList, parseUri } from "./util";
+import { Disposable, EventEmitter, FileChangeEvent, FileChangeType, FileStat, FileSystemError, FileSystemProvider, FileType, Uri } from "vscode";
+import { ALLOWED_EXTENSIONS, getFilesInFolder, isAllowedFilename, normalizePath, parseDirectoryFromFileList, parseUri, toUri } from "./util";
 import { BitburnerServer } from "../bitburner-server";
 import { BitburnerError, BitburnerErrorCode } from "../bitburner-server/errors";
+import { RequestPriority } from "../bitburner-server/rpc-scheduler";
 import { IChildLogger } from "@vscode-logging/logger";
+import { GameFileWatcher } from "./watcher";
+
+/**
+ * Requests made through the filesystem come from the user opening, saving or deleting files.
+ */
+const USER_REQUEST = { priority: RequestPriority.User };
+
+function toTimestamp(time: number | string): number {
+    const timestamp = new Date(time).getTime();
+    return isNaN(timestamp) ? 0 : timestamp;
+}
+
+function isUnsupported(e: unknown): boolean {
+    return e instanceof BitburnerError && e.code === BitburnerErrorCode.UnknownMessage;
+}
 
 function isFileUri(uri: Uri): boolean {
     return uri.path.match(/\.[a-zA-Z]+$/) !== null;
 }
 
+function unavailable(): FileSystemError {
+    return FileSystemError.Unavailable("Game is not connected.");
+}
+
+function disallowedExtension(): FileSystemError {
+    return FileSystemError.NoPermissions(`Bitburner only allows files ending in ${ALLOWED_EXTENSIONS.join(", ")}.`);
+}
+
+/**
+ * @returns The folder's path without leading or trailing slashes. The root folder is an empty string.
+ */
+function toFolderPath(path?: string): string {
+    return normalizePath(path ?? "").replace(/\/+$/, "");
+}
+
+/**
+ * A file being renamed, from `source` on the old server to `target` on the new one.
+ */
+interface FileMove {
+    source: string;
+    target: string;
+    /**
+     * Content of the file, once it's been read.
+     */
+    content?: string;
+    /**
+     * Content of the file `source` overwrote, if any. Restored on rollback.
+     */
+    overwritten?: string;
+}
+
 /**
  * Map errors to their `FileSystemError` equivalents where possible and rethrow.
  * 
@@ -46,6 +93,10 @@ function mapError<
         case BitburnerErrorCode.InvalidFile:
         case BitburnerErrorCode.InvalidHostname:
             throw FileSystemError.FileNotFound(e.message);
+        case BitburnerErrorCode.InvalidFileExtension:
+            throw disallowedExtension();
+        case BitburnerErrorCode.GameDisconnected:
+            throw unavailable();
         default: 
             if (shouldThrow()) {
                 throw e;
@@ -55,25 +106,57 @@ function mapError<
     }
 }
 
-export class BitburnerFilesystemProvider implements FileSystemProvider {
+export class BitburnerFilesystemProvider implements FileSystemProvider, Disposable {
     private readonly logger: IChildLogger;
-    onDidChangeFile: Event<FileChangeEvent[]>;
+    /**
+     * Sizes of files we've read or written, since the game's file metadata doesn't include them.
+     */
+    private readonly fileSizes = new Map<string, number>();
+    /**
+     * Folders created through `createDirectory`, by server. Folders only exist ingame as part of file paths,
+     * so these are kept around so they don't disappear before the first file is written to them.
+     */
+    private readonly createdFolders = new Map<string, Set<string>>();
+    private readonly onDidChangeFileEmitter = new EventEmitter<FileChangeEvent[]>();
+    readonly onDidChangeFile = this.onDidChangeFileEmitter.event;
+    private readonly watcher: GameFileWatcher;
 
     constructor(
         private readonly server: BitburnerServer
     ) {
         this.logger = server.logger.getChildLogger({ label: "filesystem-provider" });
-        this.onDidChangeFile = (_callback) => { return {dispose() {}}; };
+        this.watcher = new GameFileWatcher(server, events => {
+            // the watcher knows the new size of files changed ingame.
+            for (const event of events) {
+                this.fileSizes.delete(event.uri.toString());
+            }
+            this.onDidChangeFileEmitter.fire(events);
+        });
+    }
+
+    dispose() {
+        this.watcher.dispose();
+        this.onDidChangeFileEmitter.dispose();
     }
 
-    // not implementable for now
+    // the game has no change notifications, so every watched server is polled as a whole.
     watch(uri: Uri, options: { readonly recursive: boolean; readonly excludes: readonly string[]; }): Disposable {
-        throw new FileSystemError("Method not implemented.");
+        return this.watcher.watch(parseUri(uri).server);
+    }
+
+    /**
+     * Fail early and the same way for every operation while no game is connected, instead of waiting for requests to resolve to null.
+     */
+    private ensureConnected() {
+        if (!this.server.isConnected) {
+            throw unavailable();
+        }
     }
 
     async stat(uri: Uri): Promise<FileStat> {
+        this.ensureConnected();
         if (!isFileUri(uri)) {
-            throw new FileSystemError("Invalid URI. Can only stat files.");
+            return this.statDirectory(uri);
         }
         
         const filePath = parseUri(uri);
@@ -81,9 +164,27 @@ export class BitburnerFilesystemProvider implements FileSystemProvider {
             throw FileSystemError.FileNotFound("Invalid URI");
         }
 
-        const text = await this.server.getFileContent(filePath.filename, filePath.server).catch(mapError);
+        const metadata = await this.server.getFileMetadata(filePath.filename, filePath.server, USER_REQUEST)
+            .catch(e => isUnsupported(e) ? undefined : mapError(e));
+
+        if (metadata === null) {
+            throw FileSystemError.Unavailable("Game is not connected.");
+        }
+
+        if (metadata) {
+            return {
+                // folders don't exist in bitburner
+                type: FileType.File,
+                ctime: toTimestamp(metadata.btime),
+                mtime: toTimestamp(metadata.mtime),
+                size: this.getFileSize(filePath.server, filePath.filename),
+            };
+        }
+
+        // older game versions don't know `getFileMetadata`, so we have to download the file.
+        const text = await this.server.getFileContent(filePath.filename, filePath.server, USER_REQUEST).catch(mapError);
 
-        if (!text) {
+        if (text === null) {
             throw FileSystemError.Unavailable("Game is not connected.");
         }
 
@@ -96,24 +197,144 @@ export class BitburnerFilesystemProvider implements FileSystemProvider {
         };
     }
 
+    /**
+     * The game's file metadata doesn't include sizes, so they come from our own reads and writes, or the watcher's last poll of the server.
+     * Fetching them just for `stat` would download the file, so files we haven't seen yet report a size of 0.
+     */
+    private getFileSize(server: string, filename: string): number {
+        return this.fileSizes.get(toUri(server, filename).toString()) ?? this.watcher.getSize(server, filename) ?? 0;
+    }
+
+    /**
+     * Folders only exist implicitly in bitburner, as part of file paths. So a folder exists as long as it has files in it,
+     * or was created through `createDirectory`.
+     */
+    private async statDirectory(uri: Uri): Promise<FileStat> {
+        const filePath = parseUri(uri);
+        const files = await this.listFiles(filePath.server);
+
+        const path = toFolderPath(filePath.filename).split("/").filter(segment => segment.length > 0);
+        const name = path.pop();
+        // the server itself is the root folder, even if it has no files.
+        if (name && !this.listDirectory(filePath.server, files, path.join("/")).some(([entry, type]) => entry === name && type === FileType.Directory)) {
+            throw FileSystemError.FileNotFound(uri);
+        }
+
+        return {
+            type: FileType.Directory,
+            ctime: 0,
+            mtime: 0,
+            size: 0,
+        };
+    }
+
     async readDirectory(uri: Uri): Promise<[string, FileType][]> { 
+        this.ensureConnected();
         if (isFileUri(uri)) {
             throw FileSystemError.FileNotADirectory();
         }
         const filePath = parseUri(uri); 
 
-        const files = await this.server.getFileNames(filePath.server).catch(mapError);
+        const files = await this.listFiles(filePath.server);
+        return this.listDirectory(filePath.server, files, filePath.filename);
+    }
+
+    /**
+     * List a folder's contents, including folders created through `createDirectory` that have no files yet.
+     */
+    private listDirectory(server: string, files: string[], folderPath?: string): [string, FileType][] {
+        const entries = parseDirectoryFromFileList(files, folderPath);
+
+        const folder = toFolderPath(folderPath);
+        const prefix = folder ? `${folder}/` : "";
+        for (const created of this.createdFolders.get(server) ?? []) {
+            if (!created.startsWith(prefix)) {
+                continue;
+            }
+
+            const name = created.slice(prefix.length).split("/")[0];
+            if (!entries.some(([entry]) => entry === name)) {
+                entries.push([name, FileType.Directory]);
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * @returns The paths of all files on `server`.
+     */
+    private async listFiles(server: string): Promise<string[]> {
+        const files = await this.server.getFileNames(server, USER_REQUEST).catch(mapError);
         if (!files) {
-            throw FileSystemError.Unavailable("Game is not connected.");
+            // `getFileNames` swallows errors, so a connected game not listing files most likely means the server doesn't exist.
+            throw this.server.isConnected ? FileSystemError.FileNotFound(toUri(server, "")) : unavailable();
+        }
+
+        return files;
+    }
+
+    /**
+     * Directories don't exist in bitburner, so new ones are only tracked here until a file is written to them.
+     */
+    async createDirectory(uri: Uri): Promise<void> {
+        this.ensureConnected();
+        if (isFileUri(uri)) {
+            throw FileSystemError.NoPermissions("Folder names can't end in a file extension.");
+        }
+
+        const filePath = parseUri(uri);
+        const folder = toFolderPath(filePath.filename);
+        if (!folder) {
+            throw FileSystemError.FileExists(uri);
+        }
+
+        const parent = folder.split("/").slice(0, -1).join("/");
+        const entries = this.listDirectory(filePath.server, await this.listFiles(filePath.server), parent);
+        const name = folder.split("/").pop()!;
+        if (entries.some(([entry]) => entry === name)) {
+            throw FileSystemError.FileExists(uri);
         }
 
-        return parseDirectoryFromFileList(files, filePath.filename);
+        // stat the parent, so creating `a/b` fails if `a` doesn't exist either.
+        if (parent) {
+            await this.statDirectory(toUri(filePath.server, parent));
+        }
+
+        this.trackFolder(filePath.server, folder);
+        this.onDidChangeFileEmitter.fire([{ type: FileChangeType.Created, uri }]);
     }
 
-    // not really implementable; directories as such don't really exist in bitburner.
-    createDirectory(uri: Uri): void | Thenable<void> {}
+    private trackFolder(server: string, folderPath: string) {
+        let folders = this.createdFolders.get(server);
+        if (!folders) {
+            folders = new Set();
+            this.createdFolders.set(server, folders);
+        }
+
+        folders.add(folderPath);
+    }
+
+    /**
+     * Stop tracking created folders at or below `folderPath`.
+     *
+     * @returns Whether any were tracked.
+     */
+    private forgetFolders(server: string, folderPath: string): boolean {
+        const folders = this.createdFolders.get(server);
+        let found = false;
+        for (const folder of folders ?? []) {
+            if (folder === folderPath || folder.startsWith(`${folderPath}/`)) {
+                folders!.delete(folder);
+                found = true;
+            }
+        }
+
+        return found;
+    }
     
     async readFile(uri: Uri): Promise<Uint8Array> {
+        this.ensureConnected();
         if (!isFileUri(uri)) {
             throw FileSystemError.FileIsADirectory();
         }
@@ -122,60 +343,247 @@ export class BitburnerFilesystemProvider implements FileSystemProvider {
             throw FileSystemError.FileNotFound("Invalid URI");
         }
 
-        const textContent = await this.server.getFileContent(filePath.filename, filePath.server).catch(mapError);
-        if (!textContent) {
-            return new Uint8Array();
+        const textContent = await this.server.getFileContent(filePath.filename, filePath.server, USER_REQUEST).catch(mapError);
+        if (textContent === null) {
+            throw unavailable();
         }
 
-        return new TextEncoder().encode(textContent);
+        const content = new TextEncoder().encode(textContent);
+        this.fileSizes.set(uri.toString(), content.length);
+        return content;
     }
 
     async writeFile(uri: Uri, content: Uint8Array, options: { readonly create: boolean; readonly overwrite: boolean; }): Promise<void> {
-        if (!isFileUri(uri)) {
-            throw FileSystemError.FileIsADirectory();
-        }
+        this.ensureConnected();
         const filePath = parseUri(uri);
-        if (!filePath.filename) {
-            return;
+        if (!filePath.filename || toFolderPath(filePath.filename) === "") {
+            throw FileSystemError.FileIsADirectory(uri);
         }
 
-        if (!options.overwrite) {
-            // If file exists or if game is not currently connected, this doesn't throw.
-            // in either case, we don't want to overwrite the file, so we throw.
-            const text = await this.server.getFileContent(filePath.filename, filePath.server).catch((e: BitburnerError) => mapError(e, true, (e: BitburnerError<BitburnerErrorCode>) => e.code === BitburnerErrorCode.FileNotFound));
-            if (!text) {
-                throw FileSystemError.Unavailable("Game is not connected.");
-            }
-            if (typeof text === "string") {
-                throw FileSystemError.FileExists(uri);
-            }
+        // the game rejects anything but scripts and a few text formats.
+        if (!isAllowedFilename(filePath.filename)) {
+            throw disallowedExtension();
         }
 
-        try {
-            await this.server.pushFile(filePath.filename, new TextDecoder().decode(content), filePath.server);
-        } catch {}
+        // also needed with `create` and `overwrite` both set, to tell VS Code whether the file was created or changed.
+        const existing = await this.fileExists(filePath.filename, filePath.server);
+        if (existing === null) {
+            throw unavailable();
+        }
+        if (existing && !options.overwrite) {
+            throw FileSystemError.FileExists(uri);
+        }
+        if (!existing && !options.create) {
+            throw FileSystemError.FileNotFound(uri);
+        }
+
+        const text = new TextDecoder().decode(content);
+        await this.putFile(filePath.server, filePath.filename, text);
+        this.fileSizes.set(uri.toString(), content.length);
+
+        this.onDidChangeFileEmitter.fire([{ type: existing ? FileChangeType.Changed : FileChangeType.Created, uri }]);
+    }
+
+    /**
+     * Check whether a file exists, using its metadata where the game supports it.
+     * 
+     * @returns null if the game is not connected.
+     */
+    private async fileExists(filename: string, server: string): Promise<boolean | null> {
+        const ignoreNotFound = (e: BitburnerError) => mapError(e, true, (e: BitburnerError<BitburnerErrorCode>) => e.code === BitburnerErrorCode.FileNotFound);
+
+        const metadata = await this.server.getFileMetadata(filename, server, USER_REQUEST)
+            .catch((e: BitburnerError) => isUnsupported(e) ? undefined : ignoreNotFound(e));
+        if (metadata !== undefined) {
+            return metadata === null ? null : !(metadata instanceof BitburnerError);
+        }
+
+        const text = await this.server.getFileContent(filename, server, USER_REQUEST).catch(ignoreNotFound);
+        return text === null ? null : typeof text === "string";
     }
 
     async delete(uri: Uri, options: { readonly recursive: boolean; }): Promise<void> {
+        this.ensureConnected();
         if (!options.recursive && !isFileUri(uri)) {
             throw FileSystemError.FileIsADirectory();
         }
 
         const filePath = parseUri(uri);
-        if (!filePath.filename) {
-            return;
+        if (!filePath.filename || toFolderPath(filePath.filename) === "") {
+            throw FileSystemError.NoPermissions("Servers can't be deleted.");
         }
 
         if (isFileUri(uri)) {
+            await this.removeFile(filePath.server, filePath.filename);
+            this.onDidChangeFileEmitter.fire([{ type: FileChangeType.Deleted, uri }]);
+        } else {
+            const files = getFilesInFolder(await this.listFiles(filePath.server), filePath.filename);
+            const wasCreated = this.forgetFolders(filePath.server, toFolderPath(filePath.filename));
+            if (files.length === 0 && !wasCreated) {
+                throw FileSystemError.FileNotFound(uri);
+            }
+
+            const events: FileChangeEvent[] = [];
             try {
-                await this.server.deleteFile(filePath.filename, filePath.server);
-            } catch {}
+                for (const file of files) {
+                    await this.removeFile(filePath.server, file);
+                    events.push({ type: FileChangeType.Deleted, uri: toUri(filePath.server, file) });
+                }
+                events.push({ type: FileChangeType.Deleted, uri });
+            } finally {
+                // files deleted before a failure are gone either way.
+                this.onDidChangeFileEmitter.fire(events);
+            }
+        }
+    }
+
+    /**
+     * Delete a file ingame.
+     *
+     * @throws `FileSystemError.Unavailable` if the game is not connected.
+     */
+    private async removeFile(server: string, filename: string) {
+        const deleted = await this.server.deleteFile(filename, server, USER_REQUEST).catch(mapError);
+        if (!deleted) {
+            throw unavailable();
+        }
+
+        this.fileSizes.delete(toUri(server, filename).toString());
+        this.watcher.notifyChanged(server, filename, null);
+    }
+
+    /**
+     * Write a file ingame.
+     *
+     * @throws `FileSystemError.Unavailable` if the game is not connected.
+     */
+    private async putFile(server: string, filename: string, content: string) {
+        const pushed = await this.server.pushFile(filename, content, server, USER_REQUEST).catch(mapError);
+        if (!pushed) {
+            throw unavailable();
+        }
+
+        this.watcher.notifyChanged(server, filename, content);
+    }
+
+    /**
+     * The game can't rename files, so files are copied to their new location first, and only deleted from the old one once every copy succeeded.
+     * If anything fails along the way, the changes made so far are rolled back.
+     */
+    async rename(oldUri: Uri, newUri: Uri, options: { readonly overwrite: boolean; }): Promise<void> {
+        this.ensureConnected();
+        const from = parseUri(oldUri);
+        const to = parseUri(newUri);
+        if (!from.filename || !to.filename || normalizePath(from.filename) === "" || normalizePath(to.filename) === "") {
+            throw FileSystemError.NoPermissions("Servers can't be renamed.");
+        }
+
+        if (isFileUri(oldUri) !== isFileUri(newUri)) {
+            throw isFileUri(oldUri) ? FileSystemError.FileIsADirectory(newUri) : FileSystemError.FileNotADirectory(newUri);
+        }
+
+        if (oldUri.toString() === newUri.toString()) {
+            return;
+        }
+
+        if (isFileUri(newUri) && !isAllowedFilename(to.filename)) {
+            throw disallowedExtension();
+        }
+
+        let moves: FileMove[];
+        let createdFolders: FileMove[] = [];
+        if (isFileUri(oldUri)) {
+            moves = [{ source: normalizePath(from.filename), target: normalizePath(to.filename) }];
         } else {
-            
+            const sourceFolder = normalizePath(from.filename).replace(/\/+$/, "");
+            const targetFolder = normalizePath(to.filename).replace(/\/+$/, "");
+            if (from.server === to.server && `${targetFolder}/`.startsWith(`${sourceFolder}/`)) {
+                throw FileSystemError.NoPermissions("Can't move a folder into itself.");
+            }
+
+            const files = getFilesInFolder(await this.listFiles(from.server), sourceFolder);
+            createdFolders = [...this.createdFolders.get(from.server) ?? []]
+                .filter(folder => folder === sourceFolder || folder.startsWith(`${sourceFolder}/`))
+                .map(folder => ({ source: folder, target: `${targetFolder}${folder.slice(sourceFolder.length)}` }));
+            if (files.length === 0 && createdFolders.length === 0) {
+                throw FileSystemError.FileNotFound(oldUri);
+            }
+
+            moves = files.map(source => ({ source, target: `${targetFolder}${source.slice(sourceFolder.length)}` }));
+        }
+
+        const existing = new Set(getFilesInFolder(await this.listFiles(to.server)));
+        if (!options.overwrite && moves.some(move => existing.has(move.target))) {
+            throw FileSystemError.FileExists(newUri);
+        }
+
+        const copied: FileMove[] = [];
+        const deleted: FileMove[] = [];
+        try {
+            for (const move of moves) {
+                const content = await this.server.getFileContent(move.source, from.server, USER_REQUEST).catch(mapError);
+                if (content === null) {
+                    throw unavailable();
+                }
+                move.content = content;
+
+                if (existing.has(move.target)) {
+                    move.overwritten = await this.server.getFileContent(move.target, to.server, USER_REQUEST).catch(mapError) ?? undefined;
+                }
+
+                await this.putFile(to.server, move.target, content);
+                copied.push(move);
+            }
+
+            for (const move of moves) {
+                await this.removeFile(from.server, move.source);
+                deleted.push(move);
+            }
+        } catch (e) {
+            await this.rollback(from.server, to.server, copied, deleted);
+            throw e;
+        }
+
+        // empty folders only exist here, so they're moved once everything else was.
+        for (const folder of createdFolders) {
+            this.forgetFolders(from.server, folder.source);
+            this.trackFolder(to.server, folder.target);
+        }
+
+        const events: FileChangeEvent[] = [];
+        for (const move of moves) {
+            const source = toUri(from.server, move.source);
+            const target = toUri(to.server, move.target);
+
+            this.fileSizes.set(target.toString(), new TextEncoder().encode(move.content).length);
+            events.push(
+                { type: FileChangeType.Deleted, uri: source },
+                { type: move.overwritten === undefined ? FileChangeType.Created : FileChangeType.Changed, uri: target },
+            );
+        }
+
+        if (!isFileUri(oldUri)) {
+            events.push({ type: FileChangeType.Deleted, uri: oldUri }, { type: FileChangeType.Created, uri: newUri });
         }
+
+        this.onDidChangeFileEmitter.fire(events);
     }
 
-    rename(oldUri: Uri, newUri: Uri, options: { readonly overwrite: boolean; }): void | Thenable<void> {
-        // TODO: rename would require getting the old file's content, pushing it to the new location and deleting the old file.
+    /**
+     * Undo a partially completed rename, as far as the game lets us.
+     */
+    private async rollback(fromServer: string, toServer: string, copied: FileMove[], deleted: FileMove[]) {
+        for (const move of deleted) {
+            await this.putFile(fromServer, move.source, move.content!)
+                .catch(e => this.logger.error(`[rename] failed to restore ${fromServer}:${move.source}: ${e}`));
+        }
+
+        for (const move of copied) {
+            const restore = move.overwritten === undefined ?
+                this.removeFile(toServer, move.target) :
+                this.putFile(toServer, move.target, move.overwritten);
+
+            await restore.catch(e => this.logger.error(`[rename] failed to roll back ${toServer}:${move.target}: ${e}`));
+        }
     }
-}
\ No newline at end of file
+}
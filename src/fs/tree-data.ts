@@ -1,15 +1,112 @@
 import * as vscode from "vscode";
-import { BitburnerServer } from "../bitburner-server";
+import { BitburnerServer, GameFileEvent } from "../bitburner-server";
+import { RequestPriority } from "../bitburner-server/rpc-scheduler";
+import { BitburnerError, BitburnerErrorCode } from "../bitburner-server/errors";
+import { Server } from "../bitburner-server/interfaces";
 import { BitburnerFilesystemProvider } from "./filesystem-provider";
 import { join } from "path";
 import { IChildLogger } from "@vscode-logging/logger";
-import { normalizePath } from "./util";
+import { normalizePath, toUri } from "./util";
 
-interface FileData {
+export interface FileData {
     filename?: string;
     server: string;
 }
 
+export type ServerGroup = "home" | "purchased" | "rooted" | "other";
+
+export interface ServerGroupData {
+    group: ServerGroup;
+}
+
+export type RemoteFsElement = FileData | ServerGroupData;
+
+export function isServerGroup(element: RemoteFsElement): element is ServerGroupData {
+    return "group" in element;
+}
+
+/**
+ * Which servers the view shows, and how.
+ */
+export interface ServerFilter {
+    rootedOnly: boolean;
+    purchasedOnly: boolean;
+    /**
+     * Hide servers without files. Needs a request per server, so it's slower than the other filters.
+     */
+    hideEmpty: boolean;
+    /**
+     * Group servers into home, purchased, rooted and other servers.
+     */
+    grouped: boolean;
+    /**
+     * Only show servers whose hostname contains this, ignoring case. Empty to show all.
+     */
+    name: string;
+}
+
+const DEFAULT_FILTER: ServerFilter = {
+    rootedOnly: false,
+    purchasedOnly: false,
+    hideEmpty: false,
+    grouped: false,
+    name: "",
+};
+
+/**
+ * `workspaceState` key for the view's `ServerFilter`.
+ */
+const FILTER_KEY = "bitburner-companion.remoteFs.filter";
+
+/**
+ * Connecting fires several events at once, and syncs push many files in a row, so refreshes within this many milliseconds are merged.
+ */
+const REFRESH_DELAY = 50;
+
+const GROUP_LABELS: Record<ServerGroup, string> = {
+    home: "Home",
+    purchased: "Purchased",
+    rooted: "Rooted",
+    other: "Other",
+};
+
+function getServerGroup(server: Server): ServerGroup {
+    if (server.hostname === "home") {
+        return "home";
+    } else if (server.purchasedByPlayer) {
+        return "purchased";
+    } else if (server.hasAdminRights) {
+        return "rooted";
+    }
+
+    return "other";
+}
+
+function getServerIcon(server?: Server): vscode.ThemeIcon {
+    if (!server) {
+        return new vscode.ThemeIcon("server");
+    }
+
+    switch (getServerGroup(server)) {
+        case "home":
+            return new vscode.ThemeIcon("home");
+        case "purchased":
+            return new vscode.ThemeIcon("server");
+        case "rooted":
+            return new vscode.ThemeIcon("unlock");
+        case "other":
+            return new vscode.ThemeIcon("lock", new vscode.ThemeColor("disabledForeground"));
+    }
+}
+
+function describeServer(server?: Server): string | undefined {
+    if (!server || server.hostname === "home") {
+        return undefined;
+    }
+
+    return server.purchasedByPlayer ? "purchased" : server.hasAdminRights ? "rooted" : "no root access";
+}
+
 function lastSegment(path: string): string {
     const segments = path.split(/(\/|\\)/);
     return segments[segments.length - 1];
@@ -23,31 +120,209 @@ function ensureLeadingSlash(path: string): string {
     }
 }
 
-export class BitburnerRemoteFsTreeDataProvider implements vscode.TreeDataProvider<FileData> {
+export class BitburnerRemoteFsTreeDataProvider implements vscode.TreeDataProvider<RemoteFsElement>, vscode.Disposable {
     private readonly logger: IChildLogger;
 
-    onDidChangeTreeData: vscode.Event<undefined>;
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<RemoteFsElement | undefined>();
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    private readonly onDidChangeFilterEmitter = new vscode.EventEmitter<ServerFilter>();
+    readonly onDidChangeFilter = this.onDidChangeFilterEmitter.event;
+    private currentFilter: ServerFilter;
+
+    /**
+     * Server nodes by hostname. VS Code tracks tree elements by identity, so refreshing a single server needs the original object.
+     */
+    private readonly serverElements = new Map<string, FileData>();
+    /**
+     * Group nodes, and the servers in each group as of the last refresh.
+     */
+    private readonly groupElements = new Map<ServerGroup, ServerGroupData>(
+        (Object.keys(GROUP_LABELS) as ServerGroup[]).map(group => [group, { group }]),
+    );
+    private readonly groupMembers = new Map<ServerGroup, FileData[]>();
+    /**
+     * What `getAllServers` last returned for each server.
+     */
+    private serverInfo = new Map<string, Server>();
+    /**
+     * File watches for expanded servers.
+     */
+    private readonly watches = new Map<string, vscode.Disposable>();
+    /**
+     * Descriptions shown next to files, like their RAM cost, by URI. Dropped once the file changes.
+     */
+    private readonly descriptions = new Map<string, string>();
+    private readonly onDidChangeFile: vscode.Disposable;
+    private readonly onConnectionChange: vscode.Disposable[];
+    /**
+     * Aborts the previous server list request once the tree is refreshed again.
+     */
+    private serversRequest?: AbortController;
+    /**
+     * Servers waiting to be refreshed, or "all" for the whole tree.
+     */
+    private pendingRefresh: Set<string> | "all" = new Set();
+    private refreshTimeout?: NodeJS.Timeout;
 
     constructor(
         private readonly server: BitburnerServer,
         private readonly filesystem: BitburnerFilesystemProvider,
+        private readonly workspaceState: vscode.Memento,
     ) {
         this.logger = server.logger.getChildLogger({ label: "remote-files" });
+        this.currentFilter = { ...DEFAULT_FILTER, ...workspaceState.get<Partial<ServerFilter>>(FILTER_KEY, {}) };
+        this.updateContext();
 
-        this.onDidChangeTreeData = (callback) => {
-            const interval = setInterval(() => {
-                callback(undefined);
-            }, 1000);
+        // fired for our own writes and deletes as well as changes the watcher picked up.
+        this.onDidChangeFile = filesystem.onDidChangeFile(events => {
+            events.forEach(event => this.descriptions.delete(event.uri.toString()));
+            for (const server of new Set(events.map(event => event.uri.authority))) {
+                this.refresh(server);
+            }
+        });
 
-            return {
-                dispose() {
-                    clearInterval(interval);
-                }
-            };
-        };
+        this.onConnectionChange = [
+            server.onGameConnected(() => this.refresh()),
+            server.onGameDisconnected(() => this.refresh()),
+            server.onDidChangeActiveConnection(() => this.refresh()),
+            // pushes and deletes by sync or relays don't go through the filesystem provider.
+            server.onDidPushFile(event => this.onDidChangeGameFile(event)),
+            server.onDidDeleteFile(event => this.onDidChangeGameFile(event)),
+        ];
+    }
+
+    dispose() {
+        clearTimeout(this.refreshTimeout);
+        this.serversRequest?.abort();
+        this.onDidChangeFile.dispose();
+        this.onConnectionChange.forEach(listener => listener.dispose());
+        this.watches.forEach(watch => watch.dispose());
+        this.watches.clear();
+        this.onDidChangeTreeDataEmitter.dispose();
+        this.onDidChangeFilterEmitter.dispose();
+    }
+
+    public get filter(): ServerFilter {
+        return { ...this.currentFilter };
+    }
+
+    /**
+     * Change which servers are shown, and remember it for this workspace.
+     */
+    public async updateFilter(changes: Partial<ServerFilter>) {
+        this.currentFilter = { ...this.currentFilter, ...changes };
+        this.updateContext();
+        this.onDidChangeFilterEmitter.fire(this.filter);
+        this.refresh();
+
+        await this.workspaceState.update(FILTER_KEY, this.currentFilter);
+    }
+
+    /**
+     * Short summary of the active filters, for the view's description. Undefined if all servers are shown.
+     */
+    public get filterDescription(): string | undefined {
+        const { rootedOnly, purchasedOnly, hideEmpty, name } = this.currentFilter;
+        const filters = [
+            rootedOnly ? "rooted" : undefined,
+            purchasedOnly ? "purchased" : undefined,
+            hideEmpty ? "with files" : undefined,
+            name ? `"${name}"` : undefined,
+        ].filter(filter => filter !== undefined);
+
+        return filters.length > 0 ? `Filtered: ${filters.join(", ")}` : undefined;
+    }
+
+    // lets menus show which filters are active.
+    private updateContext() {
+        for (const key of ["rootedOnly", "purchasedOnly", "hideEmpty", "grouped"] as const) {
+            vscode.commands.executeCommand("setContext", `bitburner-companion.remoteFs.${key}`, this.currentFilter[key]);
+        }
+        vscode.commands.executeCommand("setContext", "bitburner-companion.remoteFs.filtered", this.filterDescription !== undefined);
     }
 
-    async getTreeItem(element: FileData): Promise<vscode.TreeItem> {
+    private onDidChangeGameFile(event: GameFileEvent) {
+        // the tree only shows the active game's files.
+        if (event.connection.id !== this.server.activeConnection?.id) {
+            return;
+        }
+
+        this.descriptions.delete(toUri(event.server, event.filename).toString());
+        this.refresh(event.server);
+    }
+
+    /**
+     * Refresh a single server's files, or the whole tree if no server is given.
+     * 
+     * Refreshes are merged for a short while, so bursts of changes only redraw the tree once.
+     */
+    public refresh(server?: string) {
+        if (!server) {
+            this.pendingRefresh = "all";
+        } else if (this.pendingRefresh !== "all") {
+            this.pendingRefresh.add(server);
+        }
+
+        this.refreshTimeout ??= setTimeout(() => this.flushRefresh(), REFRESH_DELAY);
+    }
+
+    private flushRefresh() {
+        const pending = this.pendingRefresh;
+        this.pendingRefresh = new Set();
+        this.refreshTimeout = undefined;
+
+        if (pending === "all") {
+            this.onDidChangeTreeDataEmitter.fire(undefined);
+            return;
+        }
+
+        for (const server of pending) {
+            const element = this.serverElements.get(server);
+            if (element) {
+                this.onDidChangeTreeDataEmitter.fire(element);
+            }
+        }
+    }
+
+    /**
+     * Show a description next to a file, until it changes.
+     */
+    public setDescription(element: FileData, description: string | undefined) {
+        const uri = vscode.Uri.from({ scheme: "bitburner", authority: element.server, path: "/" + normalizePath(element.filename || "") });
+        if (description === undefined) {
+            this.descriptions.delete(uri.toString());
+        } else {
+            this.descriptions.set(uri.toString(), description);
+        }
+
+        this.onDidChangeTreeDataEmitter.fire(element);
+    }
+
+    /**
+     * Stop watching a server's files once it's collapsed.
+     */
+    public onDidCollapse(element: RemoteFsElement) {
+        if (isServerGroup(element) || element.filename) {
+            return;
+        }
+
+        this.watches.get(element.server)?.dispose();
+        this.watches.delete(element.server);
+    }
+
+    async getTreeItem(element: RemoteFsElement): Promise<vscode.TreeItem> {
+        if (isServerGroup(element)) {
+            const members = this.groupMembers.get(element.group) ?? [];
+            const item = new vscode.TreeItem(GROUP_LABELS[element.group], element.group === "other" ?
+                vscode.TreeItemCollapsibleState.Collapsed :
+                vscode.TreeItemCollapsibleState.Expanded);
+            item.id = `group:${element.group}`;
+            item.description = `${members.length}`;
+            item.contextValue = "server-group";
+            return item;
+        }
+
         const uri = vscode.Uri.from({
             scheme: "bitburner",
             authority: element.server,
@@ -55,14 +330,21 @@ export class BitburnerRemoteFsTreeDataProvider implements vscode.TreeDataProvide
         });
 
         if (!element.filename) {
+            const info = this.serverInfo.get(element.server);
             const item = new vscode.TreeItem(element.server, vscode.TreeItemCollapsibleState.Collapsed);
-            item.iconPath = new vscode.ThemeIcon("server");
+            item.id = uri.toString();
+            item.iconPath = getServerIcon(info);
+            item.description = describeServer(info);
+            if (info) {
+                item.tooltip = `${element.server}\nRoot access: ${info.hasAdminRights ? "yes" : "no"}\nPurchased: ${info.purchasedByPlayer ? "yes" : "no"}`;
+            }
             item.contextValue = "server";
             return item;
         } else {
             // path is a file
             if (/\./.test(element.filename)) {
                 const fileItem =  new vscode.TreeItem(lastSegment(element.filename), vscode.TreeItemCollapsibleState.None);
+                fileItem.id = uri.toString();
                 fileItem.command = {
                     command: "vscode.open",
                     title: "Open",
@@ -70,28 +352,85 @@ export class BitburnerRemoteFsTreeDataProvider implements vscode.TreeDataProvide
                 };
 
                 fileItem.contextValue = "file";
+                fileItem.description = this.descriptions.get(uri.toString());
 
                 fileItem.resourceUri = uri;
                 return fileItem;
             } else {
                 const item = new vscode.TreeItem(lastSegment(element.filename), vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = uri.toString();
                 item.resourceUri = uri;
                 item.contextValue = "folder";
                 return item;
             }
         }
     }
-    async getChildren(element?: FileData | undefined): Promise<FileData[]> {
+    async getChildren(element?: RemoteFsElement | undefined): Promise<RemoteFsElement[]> {
+        if (element && isServerGroup(element)) {
+            return this.groupMembers.get(element.group) ?? [];
+        }
+
         if (!element) {
-            const servers = await this.server.getAllServers();
+            this.serversRequest?.abort();
+            const request = this.serversRequest = new AbortController();
+
+            const servers = await this.server.getAllServers({ priority: RequestPriority.Background, signal: request.signal })
+                .catch(e => {
+                    if (e instanceof BitburnerError && e.code === BitburnerErrorCode.Cancelled) {
+                        return null;
+                    }
+
+                    throw e;
+                });
+
+            if (request.signal.aborted) {
+                return [];
+            }
+
             if (!servers) {
                 this.logger.error("[fs] getChildren: Failed to get servers");
                 return [];
             }
-            return servers.map(server => ({
-                server: server.hostname
-            }));
+            this.serverInfo = new Map(servers.map(server => [server.hostname, server]));
+
+            const visible = await this.filterServers(servers, request.signal);
+            if (request.signal.aborted) {
+                return [];
+            }
+
+            const hostnames = new Set(visible.map(server => server.hostname));
+            for (const hostname of [...this.serverElements.keys()]) {
+                if (!hostnames.has(hostname)) {
+                    this.serverElements.delete(hostname);
+                }
+            }
+
+            const elements = visible.map(server => {
+                let element = this.serverElements.get(server.hostname);
+                if (!element) {
+                    element = { server: server.hostname };
+                    this.serverElements.set(server.hostname, element);
+                }
+
+                return element;
+            });
+
+            if (!this.currentFilter.grouped) {
+                return elements;
+            }
+
+            this.groupMembers.clear();
+            for (const [index, server] of visible.entries()) {
+                const group = getServerGroup(server);
+                this.groupMembers.set(group, [...this.groupMembers.get(group) ?? [], elements[index]]);
+            }
+
+            return [...this.groupElements.values()].filter(group => this.groupMembers.has(group.group));
         } else {
+            if (!element.filename && !this.watches.has(element.server)) {
+                this.watches.set(element.server, this.filesystem.watch(vscode.Uri.from({ scheme: "bitburner", authority: element.server, path: "/" }), { recursive: true, excludes: [] }));
+            }
+
             const files = await this.filesystem.readDirectory(vscode.Uri.from({
                 scheme: "bitburner",
                 authority: element.server,
@@ -109,4 +448,22 @@ export class BitburnerRemoteFsTreeDataProvider implements vscode.TreeDataProvide
             }));
         }
     }
-}
\ No newline at end of file
+
+    private async filterServers(servers: Server[], signal: AbortSignal): Promise<Server[]> {
+        const { rootedOnly, purchasedOnly, hideEmpty, name } = this.currentFilter;
+        const search = name.toLowerCase();
+
+        const matching = servers.filter(server =>
+            (!rootedOnly || server.hasAdminRights) &&
+            (!purchasedOnly || server.purchasedByPlayer) &&
+            (!search || server.hostname.toLowerCase().includes(search)));
+
+        if (!hideEmpty) {
+            return matching;
+        }
+
+        const fileNames = await Promise.all(matching.map(server => this.server.getFileNames(server.hostname, { priority: RequestPriority.Background, signal })));
+        // servers whose files couldn't be listed are kept, rather than hidden for no apparent reason.
+        return matching.filter((_, index) => fileNames[index] === null || fileNames[index].length > 0);
+    }
+}
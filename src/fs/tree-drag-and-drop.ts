@@ -0,0 +1,288 @@
+import * as vscode from "vscode";
+import { posix } from "path";
+import { IChildLogger } from "@vscode-logging/logger";
+import { BitburnerServer } from "../bitburner-server";
+import { RequestPriority } from "../bitburner-server/rpc-scheduler";
+import { BitburnerError, BitburnerErrorCode } from "../bitburner-server/errors";
+import { BitburnerRemoteFsTreeDataProvider, FileData, isServerGroup, RemoteFsElement } from "./tree-data";
+import { getFilesInFolder, isAllowedFilename, normalizePath, toUri } from "./util";
+
+/**
+ * VS Code puts the dragged elements of a tree under `application/vnd.code.tree.<view id>`.
+ */
+const TREE_MIME_TYPE = "application/vnd.code.tree.bitburner-companion.remote-fs";
+const URI_LIST_MIME_TYPE = "text/uri-list";
+
+/**
+ * Drops are started by the user, who's waiting for them to finish.
+ */
+const USER_REQUEST = { priority: RequestPriority.User };
+
+/**
+ * A file to put on the target server.
+ */
+interface FileTransfer {
+    /**
+     * Where the file comes from, for messages.
+     */
+    source: string;
+    /**
+     * Path on the target server.
+     */
+    target: string;
+    read: () => Promise<string>;
+    /**
+     * Deletes the original once it was copied, if the file is moved.
+     */
+    remove?: () => Promise<void>;
+}
+
+interface TransferResult {
+    transferred: number;
+    /**
+     * Files with extensions the game doesn't allow.
+     */
+    skipped: number;
+    /**
+     * Originals of moved files that were copied, but couldn't be deleted.
+     */
+    leftBehind: string[];
+}
+
+function gameDisconnected(): BitburnerError {
+    return new BitburnerError(BitburnerErrorCode.GameDisconnected, "Game disconnected");
+}
+
+function isFilePath(path: string): boolean {
+    return /\.[a-zA-Z]+$/.test(path);
+}
+
+function toFolderPath(path?: string): string {
+    return normalizePath(path ?? "").replace(/\/+$/, "");
+}
+
+function parentFolder(path: string): string {
+    const parent = posix.dirname(path);
+    return parent === "." ? "" : parent;
+}
+
+/**
+ * Copies or moves files dragged between servers in the Game Files view, and pushes files dropped from the Explorer.
+ */
+export class BitburnerRemoteFsDragAndDropController implements vscode.TreeDragAndDropController<RemoteFsElement> {
+    readonly dragMimeTypes = [URI_LIST_MIME_TYPE];
+    readonly dropMimeTypes = [TREE_MIME_TYPE, URI_LIST_MIME_TYPE];
+
+    private readonly logger: IChildLogger;
+
+    constructor(
+        private readonly server: BitburnerServer,
+        private readonly treeData: BitburnerRemoteFsTreeDataProvider,
+    ) {
+        this.logger = server.logger.getChildLogger({ label: "remote-files-dnd" });
+    }
+
+    // lets files be dragged into the editor to open them.
+    handleDrag(source: readonly RemoteFsElement[], dataTransfer: vscode.DataTransfer) {
+        const uris = source.filter((element): element is FileData => !isServerGroup(element)).map(element => toUri(element.server, element.filename ?? "").toString());
+        dataTransfer.set(URI_LIST_MIME_TYPE, new vscode.DataTransferItem(uris.join("\r\n")));
+    }
+
+    async handleDrop(target: RemoteFsElement | undefined, dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken) {
+        // groups hold servers of every kind, so there's no single server to drop onto.
+        if (!target || isServerGroup(target)) {
+            return;
+        }
+
+        // dropping onto a file puts the files next to it.
+        const path = toFolderPath(target.filename);
+        const targetFolder = isFilePath(path) ? parentFolder(path) : path;
+
+        const elements = (dataTransfer.get(TREE_MIME_TYPE)?.value as RemoteFsElement[] | undefined)
+            ?.filter((element): element is FileData => !isServerGroup(element));
+        if (elements?.length === 0) {
+            return;
+        }
+
+        const uriList = elements ? undefined : await dataTransfer.get(URI_LIST_MIME_TYPE)?.asString();
+        if (!elements && !uriList) {
+            return;
+        }
+
+        const move = elements !== undefined && await this.shouldMove(target.server);
+        if (move === undefined) {
+            return;
+        }
+
+        const destination = `${target.server}:/${targetFolder}`;
+
+        try {
+            const result = await vscode.window.withProgress({
+                location: { viewId: "bitburner-companion.remote-fs" },
+                title: `${move ? "Moving" : "Copying"} files to ${destination}`,
+            }, async () => {
+                const transfers = elements ?
+                    await this.getElementTransfers(elements, target.server, targetFolder, move) :
+                    await this.getWorkspaceTransfers(uriList!, targetFolder);
+
+                return this.transfer(transfers, target.server, token);
+            });
+
+            const skipped = result.skipped > 0 ? ` Skipped ${result.skipped} file(s) with extensions the game doesn't allow.` : "";
+            const leftBehind = result.leftBehind.length > 0 ? ` Could not delete the originals of ${result.leftBehind.join(", ")}.` : "";
+            const message = `${move ? "Moved" : "Copied"} ${result.transferred} file(s) to ${destination}.${skipped}${leftBehind}`;
+            if (result.skipped > 0 || result.leftBehind.length > 0) {
+                vscode.window.showWarningMessage(message);
+            } else {
+                vscode.window.showInformationMessage(message);
+            }
+        } catch (e) {
+            this.logger.error(`[drop] failed to ${move ? "move" : "copy"} files to ${destination}: ${e}`);
+            vscode.window.showErrorMessage(`Failed to ${move ? "move" : "copy"} files to ${destination}: ${e instanceof Error ? e.message : e}`);
+        } finally {
+            this.treeData.refresh(target.server);
+            for (const server of new Set(elements?.map(element => element.server))) {
+                this.treeData.refresh(server);
+            }
+        }
+    }
+
+    /**
+     * @returns Whether dragged files should be moved instead of copied, or undefined if the user dismissed the question.
+     */
+    private async shouldMove(targetServer: string): Promise<boolean | undefined> {
+        const action = this.server.config.remoteFsDropAction;
+        if (action !== "ask") {
+            return action === "move";
+        }
+
+        const picked = await vscode.window.showQuickPick([
+            { label: "Copy", description: "Keep the originals", move: false },
+            { label: "Move", description: "Delete the originals once everything was copied", move: true },
+        ], { title: `Drop onto ${targetServer}`, placeHolder: "Copy or move the files?" });
+
+        return picked?.move;
+    }
+
+    /**
+     * Files dragged from the Game Files view keep their paths relative to the folder they were dragged from.
+     */
+    private async getElementTransfers(elements: FileData[], targetServer: string, targetFolder: string, move: boolean): Promise<FileTransfer[]> {
+        const transfers: FileTransfer[] = [];
+
+        for (const element of elements) {
+            const path = toFolderPath(element.filename);
+            const isFile = isFilePath(path);
+            if (!isFile && element.server === targetServer && (targetFolder === path || targetFolder.startsWith(`${path}/`))) {
+                this.logger.warn(`[drop] not dropping ${element.server}:/${path} into itself`);
+                continue;
+            }
+
+            let files: string[];
+            if (isFile) {
+                files = [path];
+            } else {
+                const fileNames = await this.server.getFileNames(element.server, USER_REQUEST);
+                if (!fileNames) {
+                    throw gameDisconnected();
+                }
+
+                files = getFilesInFolder(fileNames, path);
+            }
+
+            const base = path ? parentFolder(path) : "";
+            for (const file of files) {
+                const target = posix.join(targetFolder, base ? file.slice(base.length + 1) : file);
+                if (element.server === targetServer && target === file) {
+                    continue;
+                }
+
+                transfers.push({
+                    source: `${element.server}:/${file}`,
+                    target,
+                    read: async () => {
+                        const content = await this.server.getFileContent(file, element.server, USER_REQUEST);
+                        if (content === null) {
+                            throw gameDisconnected();
+                        }
+
+                        return content;
+                    },
+                    remove: move ? async () => {
+                        if (!await this.server.deleteFile(file, element.server, USER_REQUEST)) {
+                            throw gameDisconnected();
+                        }
+                    } : undefined,
+                });
+            }
+        }
+
+        return transfers;
+    }
+
+    /**
+     * Files and folders dropped from the Explorer (or anywhere else VS Code can read from) are put into the target folder by name.
+     */
+    private async getWorkspaceTransfers(uriList: string, targetFolder: string): Promise<FileTransfer[]> {
+        const uris = uriList.split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(line => line.length > 0 && !line.startsWith("#"))
+            .map(line => vscode.Uri.parse(line));
+
+        const transfers: FileTransfer[] = [];
+        const add = async (uri: vscode.Uri, target: string) => {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.type & vscode.FileType.Directory) {
+                for (const [name] of await vscode.workspace.fs.readDirectory(uri)) {
+                    await add(vscode.Uri.joinPath(uri, name), posix.join(target, name));
+                }
+            } else {
+                transfers.push({
+                    source: uri.toString(),
+                    target,
+                    read: async () => new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)),
+                });
+            }
+        };
+
+        for (const uri of uris) {
+            await add(uri, posix.join(targetFolder, posix.basename(uri.path)));
+        }
+
+        return transfers;
+    }
+
+    /**
+     * Copy every file first, and only delete originals once all copies succeeded, so a failed move doesn't lose files.
+     * 
+     * Originals that can't be deleted are reported instead of failing the whole move, since their copies already exist.
+     */
+    private async transfer(transfers: FileTransfer[], targetServer: string, token: vscode.CancellationToken): Promise<TransferResult> {
+        const allowed = transfers.filter(transfer => isAllowedFilename(transfer.target));
+        const copied: FileTransfer[] = [];
+
+        for (const transfer of allowed) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+
+            const content = await transfer.read();
+            if (!await this.server.pushFile(transfer.target, content, targetServer, USER_REQUEST)) {
+                throw gameDisconnected();
+            }
+            copied.push(transfer);
+        }
+
+        const leftBehind: string[] = [];
+        for (const transfer of copied) {
+            try {
+                await transfer.remove?.();
+            } catch (e) {
+                this.logger.warn(`[drop] failed to delete ${transfer.source} after moving it: ${e}`);
+                leftBehind.push(transfer.source);
+            }
+        }
+
+        return { transferred: copied.length, skipped: transfers.length - allowed.length, leftBehind };
+    }
+}
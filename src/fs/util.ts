@@ -1,4 +1,21 @@
-import { FileType, Uri } from "vscode";
+import { FileType, Uri, workspace, WorkspaceFolder } from "vscode";
+
+/**
+ * File extensions the game accepts: scripts, and a few text formats.
+ */
+export const ALLOWED_EXTENSIONS = [".js", ".jsx", ".ts", ".tsx", ".txt", ".json", ".css"];
+
+export function isAllowedFilename(filename: string): boolean {
+    return ALLOWED_EXTENSIONS.some(extension => filename.endsWith(extension));
+}
+
+/**
+ * Workspace folders on disk. Game servers opened as workspace folders are left out,
+ * so nothing meant for the workspace ends up in the game.
+ */
+export function getLocalWorkspaceFolders(): WorkspaceFolder[] {
+    return workspace.workspaceFolders?.filter(folder => folder.uri.scheme === "file") ?? [];
+}
 
 export function parseUri(uri: Uri): { server: string, filename?: string } {
     const {path: filename, authority: server} = uri;
@@ -6,6 +23,10 @@ export function parseUri(uri: Uri): { server: string, filename?: string } {
     return { server, filename };
 }
 
+export function toUri(server: string, filename: string): Uri {
+    return Uri.from({ scheme: "bitburner", authority: server, path: `/${normalizePath(filename)}` });
+}
+
 type FileTree = Map<string, FileType | Map<string, FileType>>;
 
 function removeLeadingSlash(path?: string): string | undefined {
@@ -24,16 +45,31 @@ export function normalizePath<T extends string | undefined>(path: T): T {
     return path;
 }
 
+/**
+ * Normalize a folder's path, without a trailing slash. The root folder is an empty string.
+ */
+function normalizeFolderPath(path?: string): string {
+    return (normalizePath(path) ?? "").replace(/\/+$/, "");
+}
+
+/**
+ * @returns Every file in `folderPath` or any of its subfolders.
+ */
+export function getFilesInFolder(files: string[], folderPath?: string): string[] {
+    const folder = normalizeFolderPath(folderPath);
+    if (!folder) {
+        return files.map(normalizePath);
+    }
+
+    return files.map(normalizePath).filter(file => file.startsWith(`${folder}/`));
+}
+
 export function parseDirectoryFromFileList(files: string[], folderPath?: string): [string, FileType][] {
-    folderPath = normalizePath(folderPath);
+    folderPath = normalizeFolderPath(folderPath);
     
     // `files` is a list of absolute file paths for every single file on a server.
     const tree = new Map();
-    for (const file of files) {
-        if (folderPath && !file.startsWith(folderPath)) {
-            continue;
-        }
-
+    for (const file of getFilesInFolder(files, folderPath)) {
         const path = file.split("/").filter(x => x.length > 0);
         let folder = tree;
         while (path.length > 1) {
@@ -58,6 +94,10 @@ export function parseDirectoryFromFileList(files: string[], folderPath?: string)
     while (path.length > 0) {
         const name = path.shift()!;
         folder = folder.get(name) as Map<string, Map<string, FileType>>;
+        // a folder that exists only in VS Code, or was just emptied ingame.
+        if (!(folder instanceof Map)) {
+            return [];
+        }
     }
 
     return [...folder.entries()].map(([name, type]) => [name, type instanceof Map ? FileType.Directory : type]);
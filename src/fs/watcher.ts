@@ -0,0 +1,182 @@
+import { Disposable, FileChangeEvent, FileChangeType } from "vscode";
+import { createHash } from "crypto";
+import { IChildLogger } from "@vscode-logging/logger";
+import { BitburnerServer } from "../bitburner-server";
+import { RequestPriority } from "../bitburner-server/rpc-scheduler";
+import { normalizePath, toUri } from "./util";
+
+/**
+ * Polls are at most this far apart, no matter how idle the game is.
+ */
+const MAX_POLL_INTERVAL = 30 * 1000;
+
+interface ServerWatch {
+    /**
+     * Number of active `watch` calls for this server.
+     */
+    watchers: number;
+    /**
+     * Content hashes of every file on the server, as of the last poll. Undefined until the first poll succeeded.
+     */
+    files?: Map<string, string>;
+    /**
+     * Sizes of every file on the server in bytes, as of the last poll.
+     */
+    sizes?: Map<string, number>;
+    interval: number;
+    timeout?: NodeJS.Timeout;
+}
+
+function hash(content: string): string {
+    return createHash("sha1").update(content).digest("hex");
+}
+
+function size(content: string): number {
+    return new TextEncoder().encode(content).length;
+}
+
+/**
+ * Detects changes to files ingame by periodically diffing each watched server's files.
+ *
+ * Polling slows down while nothing changes or the game is disconnected, and speeds back up once something happens.
+ */
+export class GameFileWatcher implements Disposable {
+    private readonly logger: IChildLogger;
+    private readonly watches = new Map<string, ServerWatch>();
+
+    constructor(
+        private readonly server: BitburnerServer,
+        private readonly fire: (events: FileChangeEvent[]) => void,
+    ) {
+        this.logger = server.logger.getChildLogger({ label: "file-watcher" });
+    }
+
+    private get baseInterval() {
+        return this.server.config.filePollInterval;
+    }
+
+    /**
+     * Start watching a server's files.
+     *
+     * @returns A disposable that stops watching once every watcher of the server is disposed.
+     */
+    public watch(server: string): Disposable {
+        let watch = this.watches.get(server);
+        if (!watch) {
+            watch = { watchers: 0, interval: this.baseInterval };
+            this.watches.set(server, watch);
+            this.schedule(server, watch, 0);
+        }
+
+        watch.watchers++;
+
+        let disposed = false;
+        return new Disposable(() => {
+            if (disposed) {
+                return;
+            }
+            disposed = true;
+
+            watch.watchers--;
+            if (watch.watchers <= 0) {
+                clearTimeout(watch.timeout);
+                this.watches.delete(server);
+            }
+        });
+    }
+
+    /**
+     * Record a change made through the extension, so the next poll doesn't report it again.
+     * Also resets the server's poll interval, since changes tend to come in bursts.
+     *
+     * @param content The file's new content, or null if it was deleted.
+     */
+    public notifyChanged(server: string, filename: string, content: string | null) {
+        const watch = this.watches.get(server);
+        if (!watch) {
+            return;
+        }
+
+        filename = normalizePath(filename);
+        if (content === null) {
+            watch.files?.delete(filename);
+            watch.sizes?.delete(filename);
+        } else {
+            watch.files?.set(filename, hash(content));
+            watch.sizes?.set(filename, size(content));
+        }
+
+        if (watch.interval > this.baseInterval) {
+            this.schedule(server, watch, this.baseInterval);
+        }
+    }
+
+    private schedule(server: string, watch: ServerWatch, delay: number) {
+        clearTimeout(watch.timeout);
+        watch.interval = Math.max(delay, this.baseInterval);
+        watch.timeout = setTimeout(() => this.poll(server, watch), delay);
+    }
+
+    private async poll(server: string, watch: ServerWatch) {
+        // errors are treated like a disconnect, and retried with backoff.
+        const files = await this.server.getFiles(server, { priority: RequestPriority.Background }).catch(() => null);
+
+        // stopped watching while we were waiting for the game.
+        if (this.watches.get(server) !== watch) {
+            return;
+        }
+
+        if (!files) {
+            // game is disconnected or the server is gone; forget what we knew, so we get a fresh baseline once it's back.
+            watch.files = undefined;
+            watch.sizes = undefined;
+            this.schedule(server, watch, Math.min(watch.interval * 2, MAX_POLL_INTERVAL));
+            return;
+        }
+
+        const current = new Map(files.map(file => [normalizePath(file.filename), hash(file.content)]));
+        const events: FileChangeEvent[] = [];
+
+        if (watch.files) {
+            for (const [filename, contentHash] of current) {
+                const previous = watch.files.get(filename);
+                if (previous === undefined) {
+                    events.push({ type: FileChangeType.Created, uri: toUri(server, filename) });
+                } else if (previous !== contentHash) {
+                    events.push({ type: FileChangeType.Changed, uri: toUri(server, filename) });
+                }
+            }
+
+            for (const filename of watch.files.keys()) {
+                if (!current.has(filename)) {
+                    events.push({ type: FileChangeType.Deleted, uri: toUri(server, filename) });
+                }
+            }
+        }
+
+        watch.files = current;
+        watch.sizes = new Map(files.map(file => [normalizePath(file.filename), size(file.content)]));
+
+        if (events.length > 0) {
+            this.logger.debug(`[watcher] ${events.length} changes on ${server}`);
+            this.fire(events);
+            this.schedule(server, watch, this.baseInterval);
+        } else {
+            this.schedule(server, watch, Math.min(watch.interval * 2, MAX_POLL_INTERVAL));
+        }
+    }
+
+    /**
+     * The size of a file in bytes as of the last poll, if its server is watched.
+     */
+    public getSize(server: string, filename: string): number | undefined {
+        return this.watches.get(server)?.sizes?.get(normalizePath(filename));
+    }
+
+    dispose() {
+        for (const watch of this.watches.values()) {
+            clearTimeout(watch.timeout);
+        }
+        this.watches.clear();
+    }
+}
@@ -1,8 +1,10 @@
 import * as vscode from "vscode";
 import { BitburnerServer } from "../bitburner-server";
-import { normalizePath, parseUri } from "../fs/util";
+import { RequestPriority } from "../bitburner-server/rpc-scheduler";
+import { parseUri } from "../fs/util";
 import { IChildLogger } from "@vscode-logging/logger";
 import { BitburnerStatusBarItem } from "../status-bar";
+import { mapWorkspaceUri } from "../sync/path-mapping";
 
 /**
  * Provides static RAM usage display for workspace script files.
@@ -11,6 +13,10 @@ export class RamDisplayProvider implements Disposable, vscode.Disposable {
     public readonly logger;
     private readonly onActiveEditorChange: vscode.Disposable;
     private readonly codeLensProvider: RamDisplayCodeLensProvider;
+    /**
+     * Aborts the RAM lookup for the previously active editor, which nobody needs anymore.
+     */
+    private activeEditorLookup?: AbortController;
 
     constructor(
         public readonly server: BitburnerServer,
@@ -22,12 +28,18 @@ export class RamDisplayProvider implements Disposable, vscode.Disposable {
             this.logger.debug(`onDidChangeActiveTextEditor: ${editor?.document.uri.toString()}`);
             const uri = editor?.document.uri;
 
+            this.activeEditorLookup?.abort();
+            this.activeEditorLookup = undefined;
+
             if (!uri) {
                 return;
             }
 
-            const ram = await this.getRam(uri);
-            this.statusBar.setCurrentFileRam(ram);
+            const lookup = this.activeEditorLookup = new AbortController();
+            const ram = await this.getRam(uri, lookup.signal);
+            if (!lookup.signal.aborted) {
+                this.statusBar.setCurrentFileRam(ram);
+            }
         });
 
         this.codeLensProvider = new RamDisplayCodeLensProvider(this);
@@ -39,6 +51,7 @@ export class RamDisplayProvider implements Disposable, vscode.Disposable {
     }
 
     [Symbol.dispose]() {
+        this.activeEditorLookup?.abort();
         this.onActiveEditorChange.dispose();
         this.codeLensProvider.dispose();
     }
@@ -47,7 +60,7 @@ export class RamDisplayProvider implements Disposable, vscode.Disposable {
         this[Symbol.dispose]();
     }
 
-    public async getRam(uri: vscode.Uri): Promise<number | null> {
+    public async getRam(uri: vscode.Uri, signal?: AbortSignal): Promise<number | null> {
         if (uri.scheme !== "bitburner") {
             this.logger.debug(`Attempting to map non-bitburner URI.`);
             const newUri = await this.mapFile(uri);
@@ -63,7 +76,7 @@ export class RamDisplayProvider implements Disposable, vscode.Disposable {
             return null;
         }
 
-        return await this.server.calculateRam(path.filename, path.server)
+        return await this.server.calculateRam(path.filename, path.server, { priority: RequestPriority.Background, signal })
             .catch(() => null);
     }
 
@@ -72,7 +85,7 @@ export class RamDisplayProvider implements Disposable, vscode.Disposable {
      */
     public async getFileContent(filename: string, server = "home"): Promise<string | null> {
         try {
-            return await this.server.getFileContent(filename, server);
+            return await this.server.getFileContent(filename, server, { priority: RequestPriority.Background });
         } catch (e) {
             return null;
         }
@@ -85,32 +98,13 @@ export class RamDisplayProvider implements Disposable, vscode.Disposable {
         if (uri.scheme === "bitburner") {
             return uri;
         }
-        
-        // for now, we only accept file schemes. This *should* also work for other schemes, but for the prototype this is good enough.
-        if (uri.scheme !== "file") {
-            return null;
-        }
 
-        // we only care about workspace files.
-        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-        if (!workspaceFolder) {
+        const mapped = mapWorkspaceUri(uri, this.config);
+        if (!mapped || !/\.[a-zA-Z]+$/.test(mapped.path)) {
             return null;
         }
 
-        let relativePath = normalizePath(uri.path.slice(workspaceFolder.uri.path.length + 1 + normalizePath(this.config.scriptFolder).length));
-
-        const server = this.config.useServerFolders ? relativePath.split("/")[0] : "home";
-        if (!server) {
-            return null;
-        }
-
-        if (!/\.[a-zA-Z]+$/.test(relativePath)) {
-            return null;
-        }
-
-        relativePath = replaceExtension(relativePath, ".js");
-
-        return vscode.Uri.parse(`bitburner://${server}/${relativePath}`);
+        return mapped.with({ path: replaceExtension(mapped.path, ".js") });
     }
 }
 
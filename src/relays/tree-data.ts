@@ -0,0 +1,66 @@
+import * as vscode from "vscode";
+import { BitburnerServer } from "../bitburner-server";
+import { RelayState, RelayStatus } from "../bitburner-server/relay-manager";
+
+const STATE_ICONS: Record<RelayState, vscode.ThemeIcon> = {
+    connecting: new vscode.ThemeIcon("loading~spin"),
+    open: new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed")),
+    failed: new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed")),
+    closed: new vscode.ThemeIcon("circle-slash"),
+};
+
+/**
+ * Lists every relay server and its live connection status.
+ */
+export class RelayTreeDataProvider implements vscode.TreeDataProvider<RelayStatus>, vscode.Disposable {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<undefined>();
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    private readonly onDidChangeRelay: { dispose(): any };
+
+    constructor(
+        private readonly server: BitburnerServer,
+    ) {
+        this.onDidChangeRelay = server.relays.onDidChangeRelay(() => this.onDidChangeTreeDataEmitter.fire(undefined));
+    }
+
+    dispose() {
+        this.onDidChangeRelay.dispose();
+        this.onDidChangeTreeDataEmitter.dispose();
+    }
+
+    getTreeItem(relay: RelayStatus): vscode.TreeItem {
+        const item = new vscode.TreeItem(relay.address, vscode.TreeItemCollapsibleState.None);
+        item.iconPath = STATE_ICONS[relay.state];
+        item.description = `${relay.state} · ${relay.messagesReceived} received, ${relay.messagesSent} sent`;
+        item.contextValue = relay.direction === "inbound" ? "tool" : `relay-${relay.state}`;
+        if (relay.direction === "inbound") {
+            item.iconPath = new vscode.ThemeIcon("tools");
+            item.description = `tool · ${relay.messagesReceived} received, ${relay.messagesSent} sent`;
+        }
+
+        const tooltip = new vscode.MarkdownString(`**${relay.address}**: ${relay.state}`);
+        if (relay.policy) {
+            const { allowedMethods, allowedServers, pathPrefix } = relay.policy;
+            const methods = Array.isArray(allowedMethods) ? allowedMethods.join(", ") : allowedMethods;
+            tooltip.appendMarkdown(`\n\nMethods: ${methods ?? "all"}, servers: ${allowedServers?.join(", ") ?? "all"}, path prefix: ${pathPrefix ?? "none"}`);
+        }
+        if (relay.lastError) {
+            tooltip.appendMarkdown(`\n\nLast error: \`${relay.lastError}\``);
+        }
+        if (relay.nextRetry) {
+            tooltip.appendMarkdown(`\n\nRetry #${relay.retries} at ${relay.nextRetry.toLocaleTimeString()}`);
+        }
+        item.tooltip = tooltip;
+
+        return item;
+    }
+
+    getChildren(element?: RelayStatus): RelayStatus[] {
+        if (element) {
+            return [];
+        }
+
+        return this.server.relays.statuses;
+    }
+}
@@ -1,15 +1,22 @@
 import * as vscode from "vscode";
-import { BitburnerConfig } from "./bitburner-server";
-
-type ConnectionStatus = "connected" | "disconnected";
+import { BitburnerConfig, ServerState } from "./bitburner-server";
 
+const STATE_ICONS: Record<ServerState, string> = {
+    "stopped": "$(circle-slash)",
+    "listening": "$(debug-disconnect)",
+    "game-connected": "$(pass)",
+    "error": "$(error)",
+};
 
 export class BitburnerStatusBarItem implements vscode.Disposable {
     readonly status: vscode.StatusBarItem;    
-    private connectionStatus: ConnectionStatus = "disconnected";
+    private serverState: ServerState = "stopped";
     private currentFileRam: number | null = null;
+    private activeGame?: string;
+    private gameCount = 0;
     // set in `updateConfig
     private listenPort!: number;
+    private listenHost!: string;
 
 
     constructor(config: BitburnerConfig) {
@@ -26,32 +33,58 @@ export class BitburnerStatusBarItem implements vscode.Disposable {
 
     public updateConfig(config: BitburnerConfig) {
         this.listenPort = config.port;
+        this.listenHost = config.host;
 
         this.updateStatusText();
         this.updateStatusTooltip();
     }
 
     private updateStatusText() {
-        this.status.text = `${this.connectionStatus === "connected" ? "$(pass)" : "$(debug-disconnect)"} Bitburner`;
+        this.status.text = `${STATE_ICONS[this.serverState]} Bitburner`;
         if (this.currentFileRam !== null) {
             this.status.text += ` ${this.currentFileRam} GB`;
         }
     }
 
     private updateStatusTooltip() {
-        if (this.connectionStatus === "connected") {
-            this.status.tooltip = `Game connected at localhost:${this.listenPort}`;
-        } else {
-            this.status.tooltip = `Game not connected. Connect at localhost:${this.listenPort}`;
+        const address = `${this.listenHost}:${this.listenPort}`;
+
+        switch (this.serverState) {
+            case "game-connected":
+                this.status.tooltip = `${this.activeGame ?? "Game"} connected at ${address}`;
+                if (this.gameCount > 1) {
+                    this.status.tooltip += ` (${this.gameCount} instances connected, click to switch)`;
+                }
+                break;
+            case "listening":
+                this.status.tooltip = `Game not connected. Connect at ${address}`;
+                break;
+            case "stopped":
+                this.status.tooltip = "Server stopped. Click to start";
+                break;
+            case "error":
+                this.status.tooltip = `Server failed to start on ${address}. Click to retry`;
+                break;
         }
     }
 
-    public setConnectionStatus(status: ConnectionStatus) {
-        this.connectionStatus = status;
+    public setServerState(state: ServerState) {
+        this.serverState = state;
+        // there's nothing to select without a running server, so clicking starts it instead.
+        this.status.command = state === "stopped" || state === "error" ?
+            "bitburner-companion.start-server" :
+            "bitburner-companion.select-game";
+
         this.updateStatusText();
         this.updateStatusTooltip();
     }
 
+    public setActiveGame(label: string | undefined, count: number) {
+        this.activeGame = label;
+        this.gameCount = count;
+        this.updateStatusTooltip();
+    }
+
     public setCurrentFileRam(ram: number | null) {
         this.currentFileRam = ram;
         this.updateStatusText();
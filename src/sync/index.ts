@@ -0,0 +1,402 @@
+import * as vscode from "vscode";
+import { IChildLogger } from "@vscode-logging/logger";
+import { BitburnerServer, BroadcastResult } from "../bitburner-server";
+import { BitburnerError, BitburnerErrorCode } from "../bitburner-server/errors";
+import { getLocalWorkspaceFolders, normalizePath, parseUri } from "../fs/util";
+import { getScriptFolderUri, mapGameFile, mapWorkspaceUri } from "./path-mapping";
+
+function isFilePath(path: string): boolean {
+    return /\.[a-zA-Z]+$/.test(path);
+}
+
+type ConflictResolution = "local" | "game";
+
+export interface PullResult {
+    written: number;
+    skipped: number;
+    /**
+     * Servers whose files couldn't be fetched, and files that couldn't be written, with the reason.
+     */
+    failed: { server: string, filename?: string, reason: string }[];
+}
+
+/**
+ * Syncs files between the workspace's `scriptFolder` and the game.
+ * 
+ * Changes in the workspace are pushed automatically, files from the game are only pulled on request.
+ */
+export class WorkspaceSyncProvider implements Disposable, vscode.Disposable {
+    public readonly logger: IChildLogger;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        public readonly server: BitburnerServer,
+    ) {
+        this.logger = server.logger.getChildLogger({ label: "sync" });
+
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument(async document => {
+                if (!this.config.autoSync) {
+                    return;
+                }
+
+                await this.pushUri(document.uri, true);
+            }),
+            vscode.workspace.onDidCreateFiles(async e => {
+                if (!this.config.autoSync) {
+                    return;
+                }
+
+                for (const uri of e.files) {
+                    await this.pushUri(uri);
+                }
+            }),
+            vscode.workspace.onDidDeleteFiles(async e => {
+                if (!this.config.autoSync) {
+                    return;
+                }
+
+                for (const uri of e.files) {
+                    await this.deleteUri(uri);
+                }
+            }),
+            vscode.workspace.onDidRenameFiles(async e => {
+                if (!this.config.autoSync) {
+                    return;
+                }
+
+                for (const { oldUri, newUri } of e.files) {
+                    // push first, so the game doesn't lose the file if pushing fails.
+                    if (await this.pushUri(newUri)) {
+                        await this.deleteUri(oldUri);
+                    } else {
+                        this.logger.warn(`[sync] kept ${oldUri.toString()} ingame, since pushing ${newUri.toString()} failed`);
+                    }
+                }
+            }),
+        );
+    }
+
+    private get config() {
+        return this.server.config;
+    }
+
+    [Symbol.dispose]() {
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    dispose() {
+        this[Symbol.dispose]();
+    }
+
+    /**
+     * Called when a game connects. Runs a full sync if `fullSyncOnConnect` is enabled.
+     */
+    public async onGameConnected() {
+        if (!this.config.fullSyncOnConnect) {
+            return;
+        }
+
+        const { pushed, failed } = await this.fullSync();
+        this.logger.info(`[sync] full sync on connect: pushed ${pushed} files, ${failed} failed`);
+    }
+
+    /**
+     * Push every file in every workspace folder's `scriptFolder` to the game.
+     */
+    public async fullSync(): Promise<{ pushed: number, failed: number }> {
+        let pushed = 0;
+        let failed = 0;
+
+        for (const workspaceFolder of getLocalWorkspaceFolders()) {
+            const scriptFolder = getScriptFolderUri(workspaceFolder, this.config);
+            const files = await vscode.workspace.findFiles(new vscode.RelativePattern(scriptFolder, "**/*"));
+
+            for (const file of files) {
+                if (await this.pushFile(file)) {
+                    pushed++;
+                } else {
+                    failed++;
+                }
+            }
+        }
+
+        return { pushed, failed };
+    }
+
+    /**
+     * Push a workspace file, or every file in a workspace folder, to the game.
+     *
+     * @param notify Whether to show a notification if pushing fails.
+     * 
+     * @returns false if any file failed to push. Files outside of `scriptFolder` aren't pushed, and don't count as failed.
+     */
+    public async pushUri(uri: vscode.Uri, notify = false): Promise<boolean> {
+        if (uri.scheme !== "file" || !mapWorkspaceUri(uri, this.config)) {
+            return true;
+        }
+
+        const stat = await vscode.workspace.fs.stat(uri).then(stat => stat, () => null);
+        if (!stat) {
+            return false;
+        }
+
+        if (stat.type & vscode.FileType.Directory) {
+            const files = await vscode.workspace.findFiles(new vscode.RelativePattern(uri, "**/*"));
+            let pushed = true;
+            for (const file of files) {
+                pushed = await this.pushFile(file, notify) && pushed;
+            }
+
+            return pushed;
+        }
+
+        return this.pushFile(uri, notify);
+    }
+
+    /**
+     * Delete the ingame counterpart of a workspace file or folder.
+     */
+    public async deleteUri(uri: vscode.Uri): Promise<void> {
+        if (uri.scheme !== "file") {
+            return;
+        }
+
+        const target = mapWorkspaceUri(uri, this.config);
+        if (!target) {
+            return;
+        }
+
+        const { server, filename } = parseUri(target);
+        if (!filename) {
+            return;
+        }
+
+        if (isFilePath(filename)) {
+            await this.deleteFile(filename, server);
+            return;
+        }
+
+        // `uri` was a folder, so we delete everything ingame that would've been in it.
+        const prefix = filename.replace(/^\/+/, "").replace(/\/*$/, "/");
+        const files = await this.server.getFileNames(server);
+        if (!files) {
+            return;
+        }
+
+        for (const file of files.filter(file => prefix === "/" || file.replace(/^\/+/, "").startsWith(prefix))) {
+            await this.deleteFile(file, server);
+        }
+    }
+
+    private async pushFile(uri: vscode.Uri, notify = false): Promise<boolean> {
+        const target = mapWorkspaceUri(uri, this.config);
+        if (!target) {
+            return false;
+        }
+
+        const { server, filename } = parseUri(target);
+        if (!filename || !isFilePath(filename)) {
+            return false;
+        }
+
+        const content = await vscode.workspace.fs.readFile(uri).then(content => new TextDecoder().decode(content), () => null);
+        if (content === null) {
+            return false;
+        }
+
+        const results = await this.sendToTargets(
+            () => this.server.pushFile(filename, content, server),
+            () => this.server.pushFileToAll(filename, content, server),
+        );
+
+        return this.report("push", filename, server, results, notify);
+    }
+
+    private async deleteFile(filename: string, server: string): Promise<boolean> {
+        const results = await this.sendToTargets(
+            () => this.server.deleteFile(filename, server),
+            () => this.server.deleteFileFromAll(filename, server),
+        );
+
+        return this.report("delete", filename, server, results);
+    }
+
+    /**
+     * Run `all` with `broadcast` enabled and `single` otherwise, and return per-instance results either way.
+     */
+    private async sendToTargets(single: () => Promise<boolean>, all: () => Promise<BroadcastResult<"OK">[]>): Promise<BroadcastResult<"OK">[]> {
+        if (this.config.broadcast) {
+            return all();
+        }
+
+        const connection = this.server.activeConnection;
+        if (!connection) {
+            return [];
+        }
+
+        return [await single().then(
+            success => ({ connection, result: success ? "OK" as const : null }),
+            error => ({ connection, error }),
+        )];
+    }
+
+    /**
+     * Log the per-instance results of a push or delete.
+     * 
+     * @param notify Whether to show a notification for instances that failed.
+     * 
+     * @returns true if every instance succeeded.
+     */
+    private report(action: "push" | "delete", filename: string, server: string, results: BroadcastResult<"OK">[], notify = false): boolean {
+        if (results.length === 0) {
+            this.logger.debug(`[sync] could not ${action} ${filename} on ${server}: game not connected`);
+            return false;
+        }
+
+        const failures: string[] = [];
+        for (const { connection, result, error } of results) {
+            if (result === "OK") {
+                this.logger.debug(`[sync] ${action === "push" ? "pushed" : "deleted"} ${filename} on ${server} (${connection.label})`);
+                continue;
+            }
+
+            this.logger.warn(`[sync] failed to ${action} ${filename} on ${server} (${connection.label}): ${error ?? "game not connected"}`);
+            if (!(error instanceof BitburnerError && error.code === BitburnerErrorCode.InvalidFileExtension)) {
+                failures.push(`${connection.label}: ${error instanceof Error ? error.message : error ?? "not connected"}`);
+            }
+        }
+
+        if (notify && failures.length > 0) {
+            vscode.window.showWarningMessage(`Failed to sync ${filename} to ${server}. ${failures.join(", ")}`);
+        }
+
+        return results.every(({ result }) => result === "OK");
+    }
+
+    /**
+     * Write files from the game into the workspace's `scriptFolder`.
+     * If a local copy differs from the game's, the user gets to pick which one to keep.
+     * 
+     * @param servers Servers to pull files from.
+     * @param folder Only pull files in this ingame folder.
+     * 
+     * A server whose files can't be fetched doesn't stop the others from being pulled, it's reported in `failed` instead.
+     */
+    public async pullFromGame(servers: string[], folder?: string): Promise<PullResult> {
+        const workspaceFolder = await this.pickWorkspaceFolder();
+        if (!workspaceFolder) {
+            return { written: 0, skipped: 0, failed: [] };
+        }
+
+        const prefix = folder ? `${normalizePath(folder).replace(/\/*$/, "")}/` : "";
+
+        let written = 0;
+        let skipped = 0;
+        const failed: PullResult["failed"] = [];
+        // set once the user picks "... all" for a conflict.
+        let resolveAll: ConflictResolution | undefined;
+
+        for (const server of servers) {
+            const files = await this.server.getFiles(server).catch((e: unknown) => {
+                if (!(e instanceof BitburnerError)) {
+                    throw e;
+                }
+
+                return e;
+            });
+
+            if (!files || files instanceof BitburnerError) {
+                const reason = files ? files.originalMessage : "Game is not connected.";
+                this.logger.warn(`[sync] could not pull files from ${server}: ${reason}`);
+                failed.push({ server, reason });
+                continue;
+            }
+
+            for (const file of files) {
+                if (!normalizePath(file.filename).startsWith(prefix)) {
+                    continue;
+                }
+
+                const target = mapGameFile(workspaceFolder, server, file.filename, this.config);
+                if (!target) {
+                    skipped++;
+                    continue;
+                }
+
+                const content = new TextEncoder().encode(file.content);
+                const local = await vscode.workspace.fs.readFile(target).then(content => content, () => null);
+
+                if (local && new TextDecoder().decode(local) !== file.content) {
+                    const resolution = resolveAll ?? await this.resolveConflict(target, server, file.filename);
+                    if (resolution.endsWith("-all")) {
+                        resolveAll = resolution.replace("-all", "") as ConflictResolution;
+                    }
+
+                    if (!resolution.startsWith("game")) {
+                        skipped++;
+                        continue;
+                    }
+                } else if (local) {
+                    // identical, nothing to do.
+                    continue;
+                }
+
+                try {
+                    await vscode.workspace.fs.writeFile(target, content);
+                } catch (e) {
+                    const reason = e instanceof Error ? e.message : String(e);
+                    this.logger.warn(`[sync] could not write ${target.toString()}: ${reason}`);
+                    failed.push({ server, filename: file.filename, reason });
+                    continue;
+                }
+
+                this.logger.debug(`[sync] pulled ${file.filename} from ${server} to ${target.toString()}`);
+                written++;
+            }
+        }
+
+        return { written, skipped, failed };
+    }
+
+    private async resolveConflict(local: vscode.Uri, server: string, filename: string): Promise<ConflictResolution | `${ConflictResolution}-all`> {
+        const KEEP_LOCAL = "Keep Local";
+        const TAKE_GAME = "Take Game Version";
+        const OPEN_DIFF = "Open Diff";
+        const KEEP_ALL = "Keep All Local";
+        const TAKE_ALL = "Take All From Game";
+
+        while (true) {
+            const choice = await vscode.window.showWarningMessage(
+                `${filename} on ${server} differs from your local copy.`,
+                { modal: true, detail: local.fsPath },
+                KEEP_LOCAL, TAKE_GAME, OPEN_DIFF, KEEP_ALL, TAKE_ALL,
+            );
+
+            switch (choice) {
+                case TAKE_GAME:
+                    return "game";
+                case TAKE_ALL:
+                    return "game-all";
+                case KEEP_ALL:
+                    return "local-all";
+                case OPEN_DIFF: {
+                    const remote = vscode.Uri.from({ scheme: "bitburner", authority: server, path: `/${normalizePath(filename)}` });
+                    await vscode.commands.executeCommand("vscode.diff", local, remote, `${filename} (local ↔ ${server})`);
+                    continue;
+                }
+                default:
+                    return "local";
+            }
+        }
+    }
+
+    private async pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+        const folders = getLocalWorkspaceFolders();
+        if (folders.length <= 1) {
+            return folders[0];
+        }
+
+        return vscode.window.showWorkspaceFolderPick({ placeHolder: "Workspace folder to pull files into" });
+    }
+}
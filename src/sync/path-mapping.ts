@@ -0,0 +1,76 @@
+import * as vscode from "vscode";
+import { BitburnerConfig } from "../bitburner-server";
+import { isAllowedFilename, normalizePath } from "../fs/util";
+import { splitServerFolder } from "./server-folders";
+
+type MappingConfig = Pick<BitburnerConfig, "scriptFolder" | "useServerFolders">;
+
+/**
+ * Get the URI of the `scriptFolder` inside a workspace folder.
+ */
+export function getScriptFolderUri(workspaceFolder: vscode.WorkspaceFolder, config: MappingConfig): vscode.Uri {
+    const scriptFolder = normalizePath(config.scriptFolder);
+    return scriptFolder ? vscode.Uri.joinPath(workspaceFolder.uri, scriptFolder) : workspaceFolder.uri;
+}
+
+/**
+ * Map a file or folder in the workspace to its location ingame.
+ * 
+ * With `useServerFolders`, the first folder inside `scriptFolder` is the server, and files directly inside `scriptFolder` live on `home`.
+ * 
+ * @returns The matching `bitburner://` URI, or null if `uri` is not inside a workspace's `scriptFolder`.
+ */
+export function mapWorkspaceUri(uri: vscode.Uri, config: MappingConfig): vscode.Uri | null {
+    if (uri.scheme === "bitburner") {
+        return uri;
+    }
+
+    // for now, we only accept file schemes. This *should* also work for other schemes, but for the prototype this is good enough.
+    if (uri.scheme !== "file") {
+        return null;
+    }
+
+    // we only care about workspace files.
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!workspaceFolder) {
+        return null;
+    }
+
+    const scriptFolder = getScriptFolderUri(workspaceFolder, config);
+    if (!uri.path.startsWith(`${scriptFolder.path}/`)) {
+        return null;
+    }
+
+    const relativePath = normalizePath(uri.path.slice(scriptFolder.path.length + 1));
+    const location = splitServerFolder(relativePath, config.useServerFolders, isAllowedFilename(relativePath));
+    if (!location) {
+        return null;
+    }
+
+    return vscode.Uri.from({
+        scheme: "bitburner",
+        authority: location.server,
+        path: `/${location.filename}`,
+    });
+}
+
+/**
+ * Map a file ingame to its location in a workspace folder. This is the inverse of `mapWorkspaceUri`.
+ * 
+ * @returns The workspace URI for the file, or null if the layout has no place for files from `server`.
+ */
+export function mapGameFile(workspaceFolder: vscode.WorkspaceFolder, server: string, filename: string, config: MappingConfig): vscode.Uri | null {
+    const scriptFolder = getScriptFolderUri(workspaceFolder, config);
+    filename = normalizePath(filename);
+
+    if (config.useServerFolders) {
+        return vscode.Uri.joinPath(scriptFolder, server, filename);
+    }
+
+    // without server folders, the script folder represents home.
+    if (server !== "home") {
+        return null;
+    }
+
+    return vscode.Uri.joinPath(scriptFolder, filename);
+}
@@ -0,0 +1,36 @@
+/**
+ * Where a path inside `scriptFolder` lives ingame.
+ */
+export interface GameLocation {
+    server: string;
+    /**
+     * Path on `server`, without a leading slash. Empty for the server itself.
+     */
+    filename: string;
+}
+
+/**
+ * Split a path relative to `scriptFolder` into the server it's on, and its path there.
+ * 
+ * With `useServerFolders`, the first folder is the server. Files directly inside `scriptFolder` aren't in a server folder, so they live on `home`.
+ * 
+ * @param isFile Whether `relativePath` is a file, since a single segment could be either a file or a server folder.
+ * 
+ * @returns The location ingame, or null for `scriptFolder` itself.
+ */
+export function splitServerFolder(relativePath: string, useServerFolders: boolean, isFile: boolean): GameLocation | null {
+    if (!useServerFolders) {
+        return { server: "home", filename: relativePath };
+    }
+
+    const [serverFolder, ...rest] = relativePath.split("/");
+    if (!serverFolder) {
+        return null;
+    }
+
+    if (rest.length === 0 && isFile) {
+        return { server: "home", filename: serverFolder };
+    }
+
+    return { server: serverFolder, filename: rest.join("/") };
+}
@@ -0,0 +1,22 @@
+import assert from "assert";
+import { suite, test } from "mocha";
+import { splitServerFolder } from "./server-folders";
+
+suite("Server Folders", () => {
+    test("puts everything on home without server folders", () => {
+        assert.deepStrictEqual(splitServerFolder("n00dles/hack.js", false, true), { server: "home", filename: "n00dles/hack.js" });
+    });
+
+    test("uses the first folder as the server", () => {
+        assert.deepStrictEqual(splitServerFolder("n00dles/lib/hack.js", true, true), { server: "n00dles", filename: "lib/hack.js" });
+        assert.deepStrictEqual(splitServerFolder("n00dles", true, false), { server: "n00dles", filename: "" });
+    });
+
+    test("puts files directly in the script folder on home", () => {
+        assert.deepStrictEqual(splitServerFolder("hack.js", true, true), { server: "home", filename: "hack.js" });
+    });
+
+    test("doesn't map the script folder itself", () => {
+        assert.strictEqual(splitServerFolder("", true, false), null);
+    });
+});
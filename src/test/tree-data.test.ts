@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { IVSCodeExtLogger } from '@vscode-logging/logger';
+import { BitburnerServer, DEFAULT_CONFIG } from '../bitburner-server';
+import { FakeGame } from '../bitburner-server/fake-game';
+import { BitburnerFilesystemProvider } from '../fs/filesystem-provider';
+import { BitburnerRemoteFsTreeDataProvider, isServerGroup, RemoteFsElement } from '../fs/tree-data';
+
+function mockExtensionLogger(): IVSCodeExtLogger {
+	return {
+		trace: () => {},
+		debug: () => {},
+		info: () => {},
+		warn: () => {},
+		error: () => {},
+		fatal: () => {},
+		changeLevel: () => {},
+		changeSourceLocationTracking: () => {},
+		getChildLogger: () => mockExtensionLogger(),
+	};
+}
+
+function mockMemento(): vscode.Memento {
+	const values = new Map<string, unknown>();
+	return {
+		keys: () => [...values.keys()],
+		get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) : defaultValue) as T,
+		update: async (key: string, value: unknown) => { values.set(key, value); },
+	};
+}
+
+suite('Game Files Tree Test Suite', () => {
+	const config = { ...DEFAULT_CONFIG, port: DEFAULT_CONFIG.port + 2 };
+	let server: BitburnerServer;
+	let game: FakeGame;
+	let filesystem: BitburnerFilesystemProvider;
+	let treeData: BitburnerRemoteFsTreeDataProvider;
+
+	suiteSetup(async () => {
+		server = new BitburnerServer(config, mockExtensionLogger());
+		server.start();
+		game = new FakeGame();
+
+		const connected = server.awaitConnection();
+		await game.connect(config.port);
+		await connected;
+
+		filesystem = new BitburnerFilesystemProvider(server);
+		treeData = new BitburnerRemoteFsTreeDataProvider(server, filesystem, mockMemento());
+	});
+
+	suiteTeardown(() => {
+		treeData.dispose();
+		filesystem.dispose();
+		game[Symbol.dispose]();
+		server[Symbol.dispose]();
+	});
+
+	test('refreshes a server when a file is pushed to it', async () => {
+		// server nodes only exist once the tree was shown.
+		await treeData.getChildren();
+
+		const refreshed = new Promise<RemoteFsElement | undefined>(resolve => {
+			const listener = treeData.onDidChangeTreeData(element => {
+				listener.dispose();
+				resolve(element);
+			});
+		});
+
+		assert.ok(await server.pushFile('pushed.js', 'export async function main(ns) {}', 'home'));
+
+		const element = await refreshed;
+		assert.ok(element && !isServerGroup(element) && element.server === 'home');
+	});
+});
@@ -0,0 +1,151 @@
+import * as vscode from "vscode";
+import { homedir } from "os";
+import { BitburnerServer } from "../bitburner-server";
+import { TrafficEntry, TrafficStatus } from "../bitburner-server/traffic-log";
+import { getLocalWorkspaceFolders } from "../fs/util";
+
+/**
+ * Minimum time between updates of the open inspector, so bursts of requests don't make it flicker.
+ */
+const UPDATE_DELAY = 250;
+
+const STATUS_ICONS: Record<TrafficStatus, string> = {
+    pending: "$(loading~spin)",
+    ok: "$(pass)",
+    cached: "$(database)",
+    error: "$(error)",
+};
+
+interface TrafficItem extends vscode.QuickPickItem {
+    entry: TrafficEntry;
+}
+
+function toItem(entry: TrafficEntry): TrafficItem {
+    const target = entry.server ? `${entry.server} on ${entry.connection}` : entry.connection;
+    const latency = entry.latency !== undefined ? `${entry.latency} ms` : "pending";
+    const error = entry.errorCode ? ` · ${entry.errorCode}: ${entry.error}` : "";
+
+    return {
+        label: `${STATUS_ICONS[entry.status]} ${entry.method}`,
+        description: `${target} · from ${entry.origin}`,
+        detail: `${latency}${error}${entry.params ? ` · ${entry.params}` : ""}`,
+        entry,
+    };
+}
+
+/**
+ * Lists requests sent to the game, with their origin, latency and outcome.
+ */
+export class TrafficInspector implements Disposable, vscode.Disposable {
+    private quickPick?: vscode.QuickPick<TrafficItem>;
+    private errorsOnly = false;
+
+    constructor(
+        private readonly server: BitburnerServer,
+    ) {}
+
+    [Symbol.dispose]() {
+        this.quickPick?.dispose();
+    }
+
+    dispose() {
+        this[Symbol.dispose]();
+    }
+
+    /**
+     * Open the inspector. It updates live while open.
+     */
+    public show() {
+        if (this.quickPick) {
+            this.quickPick.show();
+            return;
+        }
+
+        const quickPick = this.quickPick = vscode.window.createQuickPick<TrafficItem>();
+        quickPick.title = "RPC Traffic";
+        quickPick.placeholder = "Filter by method, server, origin, params or error";
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.keepScrollPosition = true;
+
+        const exportButton = { iconPath: new vscode.ThemeIcon("save"), tooltip: "Export to JSON" };
+        const clearButton = { iconPath: new vscode.ThemeIcon("clear-all"), tooltip: "Clear" };
+        const errorsButton = () => ({
+            iconPath: new vscode.ThemeIcon(this.errorsOnly ? "filter-filled" : "filter"),
+            tooltip: this.errorsOnly ? "Show all requests" : "Show failed requests only",
+        });
+        const updateButtons = () => quickPick.buttons = [errorsButton(), exportButton, clearButton];
+
+        const update = () => {
+            const entries = this.server.traffic.entries
+                .filter(entry => !this.errorsOnly || entry.status === "error")
+                .reverse();
+            quickPick.items = entries.map(toItem);
+        };
+
+        let updateTimeout: NodeJS.Timeout | undefined;
+        const onDidChange = this.server.traffic.onDidChange(() => {
+            updateTimeout ??= setTimeout(() => {
+                updateTimeout = undefined;
+                update();
+            }, UPDATE_DELAY);
+        });
+
+        quickPick.onDidTriggerButton(button => {
+            if (button === exportButton) {
+                this.export();
+            } else if (button === clearButton) {
+                this.server.traffic.clear();
+            } else {
+                this.errorsOnly = !this.errorsOnly;
+                updateButtons();
+                update();
+            }
+        });
+
+        quickPick.onDidAccept(async () => {
+            const selected = quickPick.selectedItems[0];
+            if (!selected) {
+                return;
+            }
+
+            const document = await vscode.workspace.openTextDocument({ language: "json", content: JSON.stringify(selected.entry, null, 4) });
+            vscode.window.showTextDocument(document, { preview: true });
+        });
+
+        quickPick.onDidHide(() => {
+            clearTimeout(updateTimeout);
+            onDidChange.dispose();
+            quickPick.dispose();
+            this.quickPick = undefined;
+        });
+
+        updateButtons();
+        update();
+        quickPick.show();
+    }
+
+    /**
+     * Save every recorded request to a JSON file picked by the user.
+     *
+     * @returns where the traffic was exported to, or undefined if the user cancelled.
+     */
+    public async export(): Promise<vscode.Uri | undefined> {
+        const name = `bitburner-rpc-traffic-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(getLocalWorkspaceFolders()[0]?.uri ?? vscode.Uri.file(homedir()), name),
+            filters: { "JSON": ["json"] },
+            saveLabel: "Export Traffic",
+        });
+
+        if (!target) {
+            return;
+        }
+
+        const content = JSON.stringify({ exportedAt: new Date().toISOString(), entries: this.server.traffic.entries }, null, 4);
+        await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+        vscode.window.showInformationMessage(`Exported RPC traffic to ${target.fsPath}.`);
+
+        return target;
+    }
+}